@@ -8,12 +8,15 @@ export default {
   },
   files: [
     'dist/**/*',
+    'dist-server/**/*',
     'electron/**/*',
     'package.json',
     '!src/**/*',
     '!index.html'
   ],
   asar: true,
+  // The GSI server is forked as a separate Node process
+  asarUnpack: ['dist-server/**/*'],
   extraMetadata: {
     main: 'electron/main.js'
   },
@@ -3,7 +3,6 @@ import { fork } from 'child_process';
 import electronUpdater from 'electron-updater';
 import path from 'path';
 import fs from 'fs';
-import os from 'os';
 import { fileURLToPath } from 'url';
 
 const { autoUpdater } = electronUpdater;
@@ -16,72 +15,61 @@ app.disableHardwareAcceleration();
 let mainWindow;
 let gsiServerProcess = null;
 let latestGameState = null;
+let gsiAuthToken = null;
+let rejectedUpdates = 0;
+let authFailing = false;
+const authTokenWaiters = new Set();
 const GSI_PORT = 3000;
 const MAX_SERVER_RESTARTS = 5;
 const SERVER_RESTART_WINDOW = 60000; 
 const serverRestartTimes = [];
+const DEV_SERVER_ORIGIN = 'http://localhost:8080';
+const SETTINGS_KEY_PATTERN = /^[a-z0-9-]+$/;
+const MAX_SETTINGS_SIZE = 1024 * 1024; // 1MB per settings file
 
 // --- GSI Server Management ---
+// Built from server/index.ts by `npm run build:server`; forked processes can't
+// run from inside the asar archive, so packaged builds use the unpacked copy
+const getGSIServerPath = () => path
+  .join(__dirname, '..', 'dist-server', 'gsi-server.js')
+  .replace(`app.asar${path.sep}`, `app.asar.unpacked${path.sep}`);
+
+// The GSI server owns the auth token (server/authToken.ts) and reports it once
+// it starts; callers before then wait for it, or get null if it never comes
+const getGSIAuthToken = () => {
+  if (gsiAuthToken) return Promise.resolve(gsiAuthToken);
+  return new Promise(resolve => {
+    const waiter = (token) => {
+      clearTimeout(timeout);
+      authTokenWaiters.delete(waiter);
+      resolve(token);
+    };
+    const timeout = setTimeout(() => waiter(null), 5000);
+    authTokenWaiters.add(waiter);
+  });
+};
+
 const startGSIServer = () => {
   return new Promise((resolve, reject) => {
     console.log('Starting GSI server...');
     
-    const serverCode = `
-const http = require('http');
-let latestGameState = null;
-const server = http.createServer((req, res) => {
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-  
-  if (req.method === 'OPTIONS') {
-    res.writeHead(200);
-    res.end();
-    return;
-  }
-  
-  if (req.method === 'POST') {
-    let body = '';
-    req.on('data', chunk => { body += chunk.toString(); });
-    req.on('end', () => {
-      try {
-        const newGameState = JSON.parse(body);
-        latestGameState = newGameState;
-        if (process.send) {
-          process.send({ type: 'gsi-update', data: newGameState });
-        }
-        res.writeHead(200, { 'Content-Type': 'application/json' });
-        res.end('{"status": "ok"}');
-      } catch (error) {
-        res.writeHead(400);
-        res.end('{"error": "Invalid JSON"}');
-      }
-    });
-  } else if (req.method === 'GET' && req.url === '/gamestate') {
-    res.writeHead(200, { 'Content-Type': 'application/json' });
-    res.end(JSON.stringify(latestGameState || {}));
-  } else {
-    res.writeHead(404);
-    res.end('Not found');
-  }
-});
-
-server.listen(${GSI_PORT}, 'localhost', () => {
-  console.log('GSI Server running on http://localhost:${GSI_PORT}');
-});
-`;
-
-    const tempDir = os.tmpdir();
-    const serverFile = path.join(tempDir, 'gsi-server.js');
-    
     try {
-      fs.writeFileSync(serverFile, serverCode);
-      gsiServerProcess = fork(serverFile, [], {
+      // Packaged builds read game state over IPC only, so no browser origin needs access
+      const origins = app.isPackaged ? '' : DEV_SERVER_ORIGIN;
+      gsiServerProcess = fork(getGSIServerPath(), ['--port', String(GSI_PORT), '--origin', origins], {
         stdio: ['ignore', 'pipe', 'pipe', 'ipc']
       });
       
       gsiServerProcess.on('message', (message) => {
-        if (message.type === 'gsi-update' && message.data) {
+        if (message.type === 'gsi-auth-token' && typeof message.token === 'string') {
+          gsiAuthToken = message.token;
+          authTokenWaiters.forEach(waiter => waiter(gsiAuthToken));
+        } else if (message.type === 'gsi-rejected' && message.health) {
+          // Usually a cfg without the auth block, e.g. one set up before tokens were required
+          rejectedUpdates = message.health.rejectedUpdates;
+          authFailing = message.health.authFailing;
+        } else if (message.type === 'gsi-update' && message.data) {
+          authFailing = false;
           latestGameState = message.data;
           if (mainWindow && !mainWindow.isDestroyed()) {
             mainWindow.webContents.send('gsi-game-state-update', message.data);
@@ -208,9 +196,13 @@ app.on('before-quit', stopGSIServer);
 // IPC Handlers (Update/GSI Status)
 ipcMain.handle('get-gsi-status', () => ({
   isRunning: gsiServerProcess !== null && !gsiServerProcess.killed,
-  port: GSI_PORT
+  port: GSI_PORT,
+  rejectedUpdates,
+  authFailing
 }));
 
+ipcMain.handle('get-gsi-auth-token', () => getGSIAuthToken());
+
 ipcMain.handle('restart-gsi-server', async () => {
   stopGSIServer();
   await new Promise(r => setTimeout(r, 1000));
@@ -218,6 +210,45 @@ ipcMain.handle('restart-gsi-server', async () => {
   return { success: true };
 });
 
+// --- Settings Persistence (JSON files under userData) ---
+const getSettingsPath = (key) => path.join(app.getPath('userData'), 'settings', `${key}.json`);
+
+ipcMain.handle('read-settings', async (_event, key) => {
+  if (typeof key !== 'string' || !SETTINGS_KEY_PATTERN.test(key)) {
+    return { success: false, error: 'Invalid settings key' };
+  }
+  try {
+    const raw = await fs.promises.readFile(getSettingsPath(key), 'utf8');
+    return { success: true, data: JSON.parse(raw) };
+  } catch (error) {
+    if (error.code === 'ENOENT') return { success: true, data: null };
+    console.error('Failed to read settings:', key, error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('write-settings', async (_event, key, data) => {
+  if (typeof key !== 'string' || !SETTINGS_KEY_PATTERN.test(key)) {
+    return { success: false, error: 'Invalid settings key' };
+  }
+  try {
+    const json = JSON.stringify(data, null, 2);
+    if (json.length > MAX_SETTINGS_SIZE) {
+      return { success: false, error: 'Settings too large' };
+    }
+    const filePath = getSettingsPath(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    // Write to a temp file first so a crash never leaves a truncated settings file
+    const tempPath = `${filePath}.tmp`;
+    await fs.promises.writeFile(tempPath, json, 'utf8');
+    await fs.promises.rename(tempPath, filePath);
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to write settings:', key, error);
+    return { success: false, error: error.message };
+  }
+});
+
 // Update Handlers (Simplified for brevity, keep your existing ones)
 ipcMain.handle('check-for-updates', async () => {
   if (!app.isPackaged) return { success: false, message: 'Disabled in Dev' };
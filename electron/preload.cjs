@@ -66,6 +66,28 @@ contextBridge.exposeInMainWorld('electronAPI', {
     }
   },
 
+  getGSIAuthToken: async () => {
+    if (!rateLimiter.checkLimit('getGSIAuthToken')) {
+      throw new Error('Rate limit exceeded for getGSIAuthToken');
+    }
+    return ipcRenderer.invoke('get-gsi-auth-token');
+  },
+
+  // Settings persistence API
+  readSettings: async (key) => {
+    if (!rateLimiter.checkLimit('readSettings')) {
+      throw new Error('Rate limit exceeded for readSettings');
+    }
+    return ipcRenderer.invoke('read-settings', key);
+  },
+
+  writeSettings: async (key, data) => {
+    if (!rateLimiter.checkLimit('writeSettings')) {
+      throw new Error('Rate limit exceeded for writeSettings');
+    }
+    return ipcRenderer.invoke('write-settings', key, data);
+  },
+
   // Auto-updater API
   checkForUpdates: () => ipcRenderer.invoke('check-for-updates'),
   downloadUpdate: () => ipcRenderer.invoke('download-update'),
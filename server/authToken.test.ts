@@ -0,0 +1,31 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { loadOrCreateAuthToken } from './authToken';
+
+describe('loadOrCreateAuthToken', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sentinel-token-'));
+  });
+
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('creates a token on first run and reuses it afterwards', () => {
+    const file = path.join(dir, 'nested', 'gsi-token');
+    const token = loadOrCreateAuthToken(file);
+    expect(token).toMatch(/^[a-f0-9]{64}$/);
+    expect(fs.readFileSync(file, 'utf8')).toBe(token);
+    expect(loadOrCreateAuthToken(file)).toBe(token);
+  });
+
+  it('replaces a malformed token file', () => {
+    const file = path.join(dir, 'gsi-token');
+    fs.writeFileSync(file, 'not a token');
+    const token = loadOrCreateAuthToken(file);
+    expect(token).toMatch(/^[a-f0-9]{64}$/);
+    expect(fs.readFileSync(file, 'utf8')).toBe(token);
+  });
+});
@@ -0,0 +1,31 @@
+// Per-install GSI auth token, kept in a file so the Dota cfg stays valid across restarts
+
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { randomBytes } from 'node:crypto';
+
+// The desktop app forks this server, so `npm run gsi-server` and the app share
+// the token and accept the same cfg
+export const DEFAULT_TOKEN_FILE = path.join(os.homedir(), '.sentinel-timer', 'gsi-token');
+
+const TOKEN_PATTERN = /^[a-f0-9]{64}$/;
+
+export const generateAuthToken = (): string => randomBytes(32).toString('hex');
+
+/**
+ * Reads the saved token, creating one on first run or when the file is unreadable.
+ */
+export function loadOrCreateAuthToken(filePath: string = DEFAULT_TOKEN_FILE): string {
+  try {
+    const saved = fs.readFileSync(filePath, 'utf8').trim();
+    if (TOKEN_PATTERN.test(saved)) return saved;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+
+  const token = generateAuthToken();
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, token, { encoding: 'utf8', mode: 0o600 });
+  return token;
+}
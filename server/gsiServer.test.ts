@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createGSIServer, isAllowedOrigin, tokensMatch, type GSIServer } from './gsiServer';
+
+const TOKEN = 'a'.repeat(64);
+
+const update = (auth?: unknown) => JSON.stringify({
+  ...(auth !== undefined && { auth }),
+  provider: { name: 'Dota 2', appid: 570 },
+  map: { clock_time: 10, game_state: 'DOTA_GAMERULES_STATE_GAME_IN_PROGRESS' }
+});
+
+const silentLogger = { info: () => {}, warn: () => {}, error: () => {} };
+
+describe('tokensMatch', () => {
+  it('accepts only the exact token', () => {
+    expect(tokensMatch(TOKEN, TOKEN)).toBe(true);
+    expect(tokensMatch('b'.repeat(64), TOKEN)).toBe(false);
+    expect(tokensMatch(TOKEN.slice(1), TOKEN)).toBe(false);
+    expect(tokensMatch(undefined, TOKEN)).toBe(false);
+  });
+});
+
+describe('isAllowedOrigin', () => {
+  it('allows pages served from this machine by default', () => {
+    expect(isAllowedOrigin('http://localhost:8080')).toBe(true);
+    expect(isAllowedOrigin('http://127.0.0.1:4173')).toBe(true);
+    expect(isAllowedOrigin('http://localhost.evil.test')).toBe(false);
+    expect(isAllowedOrigin('https://example.com')).toBe(false);
+    expect(isAllowedOrigin(undefined)).toBe(false);
+  });
+
+  it('allows only the listed origins when given', () => {
+    expect(isAllowedOrigin('https://timer.example', ['https://timer.example'])).toBe(true);
+    expect(isAllowedOrigin('http://localhost:8080', ['https://timer.example'])).toBe(false);
+    expect(isAllowedOrigin('http://localhost:8080', [])).toBe(false);
+  });
+});
+
+describe('createGSIServer', () => {
+  let server: GSIServer;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    server = createGSIServer({ port: 0, host: '127.0.0.1', authToken: TOKEN, logger: silentLogger });
+    baseUrl = `http://127.0.0.1:${await server.start()}`;
+  });
+
+  afterEach(() => server.stop());
+
+  const post = (body: string) => fetch(`${baseUrl}/gamestate`, { method: 'POST', body });
+
+  it('rejects updates without the auth token', async () => {
+    expect((await post(update())).status).toBe(401);
+    expect((await post(update({ token: 'wrong' }))).status).toBe(401);
+    expect(server.getLatest()).toBeNull();
+  });
+
+  it('accepts updates with the auth token and drops it from the stored state', async () => {
+    expect((await post(update({ token: TOKEN }))).status).toBe(200);
+    expect(server.getLatest()?.map?.clock_time).toBe(10);
+    expect(server.getLatest()).not.toHaveProperty('auth');
+  });
+
+  it('reports rejected updates in the health until a valid one arrives', async () => {
+    await post(update());
+    await post(update({ token: 'wrong' }));
+    expect(server.getHealth()).toMatchObject({ rejectedUpdates: 2, authFailing: true });
+
+    await post(update({ token: TOKEN }));
+    expect(server.getHealth()).toMatchObject({ rejectedUpdates: 2, authFailing: false });
+
+    const health = await (await fetch(`${baseUrl}/health`)).json();
+    expect(health).toMatchObject({ rejectedUpdates: 2, authFailing: false });
+  });
+
+  it('rejects invalid JSON', async () => {
+    expect((await post('{"map":')).status).toBe(400);
+  });
+
+  it('never serves the auth token', async () => {
+    const response = await fetch(`${baseUrl}/auth-token`, { headers: { Origin: 'http://localhost:8080' } });
+    expect(response.status).toBe(404);
+  });
+
+  it('only sends CORS headers to allowed origins', async () => {
+    const allowed = await fetch(`${baseUrl}/gamestate`, { headers: { Origin: 'http://localhost:8080' } });
+    expect(allowed.headers.get('access-control-allow-origin')).toBe('http://localhost:8080');
+
+    const other = await fetch(`${baseUrl}/gamestate`, { headers: { Origin: 'https://example.com' } });
+    expect(other.headers.get('access-control-allow-origin')).toBeNull();
+  });
+});
+
+describe('rejected update warnings', () => {
+  it('logs the first rejection and then at most once a minute', async () => {
+    const warnings: string[] = [];
+    const rejected: number[] = [];
+    const server = createGSIServer({
+      port: 0,
+      host: '127.0.0.1',
+      authToken: TOKEN,
+      logger: { ...silentLogger, warn: message => warnings.push(message) },
+      onReject: health => rejected.push(health.rejectedUpdates)
+    });
+    const port = await server.start();
+
+    try {
+      for (let i = 0; i < 3; i++) {
+        await fetch(`http://127.0.0.1:${port}/`, { method: 'POST', body: update() });
+      }
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0]).toMatch(/^Rejected 1 GSI update\(s\) with a missing or wrong auth token/);
+      expect(rejected).toEqual([1, 2, 3]);
+    } finally {
+      await server.stop();
+    }
+  });
+});
@@ -0,0 +1,252 @@
+// Local HTTP server that receives Dota 2 Game State Integration updates
+//
+// Dota POSTs every update to the server. The latest valid update is served at
+// /gamestate and pushed to subscribers of /stream as server-sent events.
+// Updates must carry the install's auth token, and only the app's own origins
+// may read from the server in a browser. The token itself is never served.
+
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { timingSafeEqual } from 'node:crypto';
+import type { RawGSIData } from '../src/types/gsi';
+import { validateAndSanitizeGSIData } from '../src/utils/validation';
+
+export const DEFAULT_GSI_PORT = 3000;
+export const DEFAULT_GSI_HOST = 'localhost';
+
+const MAX_BODY_SIZE = 1024 * 1024; // 1MB per update
+const STREAM_KEEPALIVE_INTERVAL = 15000;
+// Dota retries rejected updates every half second; log them at most this often
+const REJECTED_WARNING_INTERVAL = 60000;
+
+export interface GSIServerLogger {
+  info: (message: string) => void;
+  warn: (message: string) => void;
+  error: (message: string) => void;
+}
+
+export interface GSIServerOptions {
+  port?: number;
+  host?: string;
+  authToken: string; // Must match the token in the Dota cfg's auth block
+  allowedOrigins?: string[]; // Browser origins allowed to read game state; defaults to any loopback origin
+  onUpdate?: (data: RawGSIData) => void; // Called with each valid, sanitized update
+  onReject?: (health: GSIServerHealth) => void; // Called each time an update's auth token is rejected
+  logger?: GSIServerLogger;
+}
+
+export interface GSIServerHealth {
+  status: 'ok';
+  uptime: number; // Seconds since the server started
+  lastUpdate: number | null; // Date.now() of the last valid update
+  streamClients: number;
+  rejectedUpdates: number; // Updates rejected for a missing or wrong auth token since the server started
+  authFailing: boolean; // Every update since the last valid one was rejected, e.g. a cfg from before auth tokens
+}
+
+export interface GSIServer {
+  start: () => Promise<number>; // Resolves with the port listened on, e.g. when given port 0
+  stop: () => Promise<void>;
+  getLatest: () => RawGSIData | null;
+  getHealth: () => GSIServerHealth;
+}
+
+const consoleLogger: GSIServerLogger = {
+  info: message => console.log(message),
+  warn: message => console.warn(message),
+  error: message => console.error(message)
+};
+
+const sendJSON = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+// Dota sends the cfg's auth block with every update
+const getAuthToken = (data: unknown): string | undefined => {
+  const auth = (data as { auth?: { token?: unknown } } | null)?.auth;
+  return typeof auth?.token === 'string' ? auth.token : undefined;
+};
+
+export const tokensMatch = (received: string | undefined, expected: string): boolean => {
+  if (received === undefined) return false;
+  const a = Buffer.from(received);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+};
+
+// The web build is served from this machine, by `npm run dev`, `vite preview` or any static server
+const LOOPBACK_ORIGIN_PATTERN = /^http:\/\/(localhost|127\.0\.0\.1|\[::1\])(:\d+)?$/;
+
+export const isAllowedOrigin = (origin: string | undefined, allowedOrigins?: string[]): boolean => {
+  if (!origin) return false;
+  return allowedOrigins ? allowedOrigins.includes(origin) : LOOPBACK_ORIGIN_PATTERN.test(origin);
+};
+
+const sendEvent = (res: http.ServerResponse, data: RawGSIData) => {
+  res.write(`data: ${JSON.stringify(data)}\n\n`);
+};
+
+/**
+ * Creates a GSI server. Updates that fail validation are rejected with 400
+ * and never replace the latest state.
+ */
+export function createGSIServer(options: GSIServerOptions): GSIServer {
+  const port = options.port ?? DEFAULT_GSI_PORT;
+  const host = options.host ?? DEFAULT_GSI_HOST;
+  const logger = options.logger ?? consoleLogger;
+
+  let latest: RawGSIData | null = null;
+  let lastUpdate: number | null = null;
+  let startedAt = Date.now();
+  let keepalive: NodeJS.Timeout | null = null;
+  let rejectedUpdates = 0;
+  let authFailing = false;
+  let lastRejectedWarning: number | null = null;
+  let rejectedSinceWarning = 0;
+  const streamClients = new Set<http.ServerResponse>();
+
+  const getHealth = (): GSIServerHealth => ({
+    status: 'ok',
+    uptime: Math.floor((Date.now() - startedAt) / 1000),
+    lastUpdate,
+    streamClients: streamClients.size,
+    rejectedUpdates,
+    authFailing
+  });
+
+  const rejectUpdate = (req: http.IncomingMessage, res: http.ServerResponse) => {
+    rejectedUpdates++;
+    rejectedSinceWarning++;
+    authFailing = true;
+    const now = Date.now();
+    if (lastRejectedWarning === null || now - lastRejectedWarning >= REJECTED_WARNING_INTERVAL) {
+      logger.warn(`Rejected ${rejectedSinceWarning} GSI update(s) with a missing or wrong auth token from ` +
+        `${req.socket.remoteAddress}; check the auth block in the Dota cfg`);
+      lastRejectedWarning = now;
+      rejectedSinceWarning = 0;
+    }
+    sendJSON(res, 401, { error: 'Invalid auth token' });
+    options.onReject?.(getHealth());
+  };
+
+  const handleUpdate = (req: http.IncomingMessage, res: http.ServerResponse) => {
+    let body = '';
+    let tooLarge = false;
+
+    req.on('data', (chunk: Buffer) => {
+      if (tooLarge) return;
+      body += chunk.toString();
+      if (body.length > MAX_BODY_SIZE) {
+        tooLarge = true;
+        sendJSON(res, 413, { error: 'Payload too large' });
+        req.destroy();
+      }
+    });
+
+    req.on('end', () => {
+      if (tooLarge) return;
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(body);
+      } catch {
+        sendJSON(res, 400, { error: 'Invalid JSON' });
+        return;
+      }
+
+      if (!tokensMatch(getAuthToken(parsed), options.authToken)) {
+        rejectUpdate(req, res);
+        return;
+      }
+
+      const sanitized = validateAndSanitizeGSIData(parsed);
+      if (!sanitized) {
+        logger.warn('Rejected GSI update that failed validation');
+        sendJSON(res, 400, { error: 'Invalid GSI data' });
+        return;
+      }
+
+      latest = sanitized;
+      lastUpdate = Date.now();
+      authFailing = false;
+      streamClients.forEach(client => sendEvent(client, sanitized));
+      options.onUpdate?.(sanitized);
+      sendJSON(res, 200, { status: 'ok' });
+    });
+  };
+
+  const handleStream = (req: http.IncomingMessage, res: http.ServerResponse) => {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+    streamClients.add(res);
+    if (latest) {
+      sendEvent(res, latest);
+    }
+    req.on('close', () => streamClients.delete(res));
+  };
+
+  const server = http.createServer((req, res) => {
+    const origin = req.headers.origin;
+    res.setHeader('Vary', 'Origin');
+    if (isAllowedOrigin(origin, options.allowedOrigins)) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    }
+
+    const url = req.url?.split('?')[0];
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+    } else if (req.method === 'POST') {
+      // Dota posts to whatever path the cfg uri names
+      handleUpdate(req, res);
+    } else if (req.method === 'GET' && url === '/gamestate') {
+      sendJSON(res, 200, latest ?? {});
+    } else if (req.method === 'GET' && url === '/health') {
+      sendJSON(res, 200, getHealth());
+    } else if (req.method === 'GET' && url === '/stream') {
+      handleStream(req, res);
+    } else {
+      sendJSON(res, 404, { error: 'Not found' });
+    }
+  });
+
+  const start = () => new Promise<number>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.off('error', reject);
+      const { port: boundPort } = server.address() as AddressInfo;
+      startedAt = Date.now();
+      keepalive = setInterval(() => {
+        // A named event rather than a comment, so clients can tell a quiet stream from a stalled one
+        streamClients.forEach(client => client.write('event: keepalive\ndata: \n\n'));
+      }, STREAM_KEEPALIVE_INTERVAL);
+      logger.info(`GSI server running on http://${host}:${boundPort}`);
+      resolve(boundPort);
+    });
+  });
+
+  const stop = () => new Promise<void>((resolve, reject) => {
+    if (keepalive) {
+      clearInterval(keepalive);
+      keepalive = null;
+    }
+    // Open streams would keep the server from closing
+    streamClients.forEach(client => client.end());
+    streamClients.clear();
+    server.close(err => (err ? reject(err) : resolve()));
+  });
+
+  return {
+    start,
+    stop,
+    getLatest: () => latest,
+    getHealth
+  };
+}
@@ -0,0 +1,61 @@
+// Runs the GSI server on its own: `npm run gsi-server -- --port 3000`
+//
+// When forked by the Electron main process, the auth token is sent to the
+// parent as a { type: 'gsi-auth-token', token } message once the server starts,
+// each valid update as a { type: 'gsi-update', data } message and the server
+// health after each rejected update as a { type: 'gsi-rejected', health }
+// message. The token comes from GSI_AUTH_TOKEN when set, otherwise from the
+// token file.
+
+import { DEFAULT_TOKEN_FILE, loadOrCreateAuthToken } from './authToken';
+import { createGSIServer, DEFAULT_GSI_HOST, DEFAULT_GSI_PORT } from './gsiServer';
+
+const readOption = (name: string): string | undefined => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+};
+
+const port = Number(readOption('port') ?? process.env.GSI_PORT ?? DEFAULT_GSI_PORT);
+if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+  console.error(`Invalid port: ${readOption('port') ?? process.env.GSI_PORT}`);
+  process.exit(1);
+}
+
+const tokenFile = readOption('token-file') ?? DEFAULT_TOKEN_FILE;
+const authToken = process.env.GSI_AUTH_TOKEN || loadOrCreateAuthToken(tokenFile);
+
+// --origin takes a comma-separated list, e.g. when the web build is served
+// from another host; an empty list lets no browser page read from the server.
+// Without it any page served from this machine may read.
+const allowedOrigins = readOption('origin')?.split(',').map(origin => origin.trim()).filter(Boolean);
+
+const server = createGSIServer({
+  port,
+  host: readOption('host') ?? DEFAULT_GSI_HOST,
+  authToken,
+  allowedOrigins,
+  onUpdate: data => process.send?.({ type: 'gsi-update', data }),
+  onReject: health => process.send?.({ type: 'gsi-rejected', health })
+});
+
+const shutdown = () => {
+  server.stop().finally(() => process.exit(0));
+};
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
+
+server.start().then(() => {
+  // The Electron app fills in the cfg itself; CLI users copy the token from here
+  if (process.send) {
+    process.send({ type: 'gsi-auth-token', token: authToken });
+  } else if (!process.env.GSI_AUTH_TOKEN) {
+    console.log(`Auth token for the Dota cfg (saved in ${tokenFile}):`);
+    console.log(`  "token" "${authToken}"`);
+  }
+}).catch((err: NodeJS.ErrnoException) => {
+  console.error(err.code === 'EADDRINUSE'
+    ? `Port ${port} is already in use. Is another GSI server running?`
+    : `Failed to start GSI server: ${err.message}`);
+  process.exit(1);
+});
@@ -15,6 +15,14 @@ const AUDIO_AUDIO_EVENTS: { id: NotificationEvent; label: string }[] = [
   { id: 'lotus-bloom', label: 'Lotus Bloom' },
   { id: 'neutral-ready', label: 'Neutral Ready' },
   { id: 'wisdom-available', label: 'Wisdom Shrine' },
+  { id: 'tormentor-spawn', label: 'Tormentor Spawn' },
+  { id: 'ward-available', label: 'Ward Available' },
+  { id: 'buyback-ready', label: 'Buyback Ready' },
+  { id: 'cooldown-ready', label: 'Cooldown Ready' },
+  { id: 'tower-destroyed', label: 'Tower Destroyed' },
+  { id: 'night-fall', label: 'Night Falls' },
+  { id: 'timer-warning', label: 'Timer Warning' },
+  { id: 'timer-warning-final', label: 'Final Warning' },
   { id: 'timer-alert', label: 'General Alert' }
 ];
 
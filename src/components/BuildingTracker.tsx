@@ -0,0 +1,122 @@
+import React from 'react';
+import { Card } from '@/components/ui/card';
+import { TimerCard, type Timer } from './TimerCard';
+import type { GSITeam } from '@/types/gsi';
+import { BUILDING_LANES, getTeamBuildingNames, type BuildingStatus } from '@/utils/buildings';
+import { cn } from '@/lib/utils';
+
+interface BuildingTrackerProps {
+  structures: Map<string, BuildingStatus>;
+  recent: BuildingStatus[]; // Latest first
+  ourTeam: GSITeam;
+  glyphTimer: Timer;
+  glyphActive: boolean;
+  glyphPaused: boolean;
+  glyphRemaining: number;
+  onGlyphStart: (id: string) => void;
+  onGlyphStop: (id: string) => void;
+  onGlyphPause: (id: string) => void;
+}
+
+const TEAMS: GSITeam[] = ['radiant', 'dire'];
+
+const formatTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const remainingSeconds = Math.floor(seconds % 60);
+  return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+};
+
+const pipClass = (status?: BuildingStatus) => {
+  if (!status) return "bg-muted";
+  if (status.isDestroyed) return "bg-destructive/60";
+  return status.maxHealth > 0 && status.health / status.maxHealth < 0.5 ? "bg-accent" : "bg-primary";
+};
+
+const pipTitle = (name: string, status?: BuildingStatus) => {
+  if (!status) return name;
+  if (status.isDestroyed) return `${status.label}: destroyed`;
+  return `${status.label}: ${status.health}/${status.maxHealth}`;
+};
+
+export const BuildingTracker: React.FC<BuildingTrackerProps> = ({
+  structures,
+  recent,
+  ourTeam,
+  glyphTimer,
+  glyphActive,
+  glyphPaused,
+  glyphRemaining,
+  onGlyphStart,
+  onGlyphStop,
+  onGlyphPause
+}) => {
+  const renderPip = (name: string) => {
+    const status = structures.get(name);
+    return (
+      <div
+        key={name}
+        title={pipTitle(name, status)}
+        className={cn("h-3 w-3 rounded-sm", status?.kind === 'barracks' && "rounded-full", pipClass(status))}
+      />
+    );
+  };
+
+  return (
+    <Card className="p-4 magical-card mystical-border space-y-3">
+      <h3 className="font-semibold enchanted-text">Buildings</h3>
+
+      {structures.size === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Connect GSI to follow tower and barracks health.
+        </p>
+      ) : (
+        <div className="grid grid-cols-2 gap-3">
+          {TEAMS.map(team => {
+            const names = getTeamBuildingNames(team);
+            return (
+              <div key={team} className="space-y-1">
+                <p className="text-xs font-medium capitalize">
+                  {team}{team === ourTeam && <span className="text-muted-foreground"> (you)</span>}
+                </p>
+                {/* One row per lane from tier 1 inwards, then the base */}
+                {BUILDING_LANES.map(lane => (
+                  <div key={lane} className="flex items-center gap-1">
+                    <span className="w-7 text-[10px] uppercase text-muted-foreground">{lane}</span>
+                    {names.filter(name => name.endsWith(`_${lane}`) && !name.includes('tower4')).map(renderPip)}
+                  </div>
+                ))}
+                <div className="flex items-center gap-1">
+                  <span className="w-7 text-[10px] uppercase text-muted-foreground">base</span>
+                  {names.filter(name => name.includes('tower4') || name.endsWith('_fort')).map(renderPip)}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {recent.length > 0 && (
+        <div className="space-y-1 text-xs">
+          {recent.map(building => (
+            <div key={building.name} className="flex items-center justify-between">
+              <span className="capitalize">{building.team} {building.label}</span>
+              <span className="font-mono text-muted-foreground">
+                {building.destroyedAt !== null ? formatTime(building.destroyedAt) : '—'}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <TimerCard
+        timer={glyphTimer}
+        onStart={onGlyphStart}
+        onStop={onGlyphStop}
+        onPause={onGlyphPause}
+        isActive={glyphActive}
+        isPaused={glyphPaused}
+        timeRemaining={glyphRemaining}
+      />
+    </Card>
+  );
+};
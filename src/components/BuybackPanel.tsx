@@ -0,0 +1,54 @@
+import React from 'react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import type { BuybackStatus } from '@/hooks/useBuyback';
+import { cn } from '@/lib/utils';
+
+interface BuybackPanelProps {
+  status: BuybackStatus | null; // Null until GSI reports the local hero
+}
+
+const formatTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const remainingSeconds = seconds % 60;
+  return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+};
+
+export const BuybackPanel: React.FC<BuybackPanelProps> = ({ status }) => {
+  return (
+    <Card className="p-4 magical-card mystical-border">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold enchanted-text">Buyback</h3>
+        {status && (
+          <Badge variant={status.isReady ? "default" : status.cooldown > 0 ? "secondary" : "destructive"}>
+            {status.isReady ? 'Available' : status.cooldown > 0 ? 'On cooldown' : 'Need gold'}
+          </Badge>
+        )}
+      </div>
+
+      {!status ? (
+        <p className="text-xs text-muted-foreground">
+          Connect GSI and pick a hero to track buyback.
+        </p>
+      ) : (
+        <div className="space-y-1 text-sm">
+          <div className="flex items-center justify-between">
+            <span className="text-muted-foreground">Cooldown</span>
+            <span className="font-mono">{status.cooldown > 0 ? formatTime(status.cooldown) : 'Ready'}</span>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-muted-foreground">Cost</span>
+            <span className="font-mono">{status.cost}</span>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-muted-foreground">Gold</span>
+            <span className={cn("font-mono", !status.canAfford && "text-destructive")}>
+              {status.gold}
+              {!status.canAfford && ` (${status.cost - status.gold} short)`}
+            </span>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,341 @@
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, Pencil, Plus, Save, Trash2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import type { NotificationEvent } from '@/hooks/useAudioBank';
+import { useToast } from '@/hooks/use-toast';
+import {
+  CUSTOM_TIMER_COLORS,
+  validateCustomTimer,
+  type CustomTimerColor,
+  type CustomTimerDefinition
+} from '@/utils/customTimers';
+import { cn } from '@/lib/utils';
+
+interface CustomTimerEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sounds: { id: NotificationEvent; label: string }[];
+  profileNames: string[];
+  activeProfile: string;
+  definitions: CustomTimerDefinition[];
+  onSave: (definition: CustomTimerDefinition) => void;
+  onDelete: (id: string) => void;
+  onMove: (id: string, offset: -1 | 1) => void;
+  onSelectProfile: (name: string) => void;
+  onCreateProfile: (name: string) => boolean;
+  onDeleteProfile: () => void;
+}
+
+// Form fields as typed; times are m:ss or plain seconds
+interface TimerForm {
+  id: string | null; // Null while creating
+  name: string;
+  duration: string;
+  minDuration: string;
+  maxDuration: string;
+  repeat: boolean;
+  alertEvent: NotificationEvent;
+  color: CustomTimerColor;
+  hotkey: string;
+}
+
+const EMPTY_FORM: TimerForm = {
+  id: null,
+  name: '',
+  duration: '1:00',
+  minDuration: '',
+  maxDuration: '',
+  repeat: false,
+  alertEvent: 'timer-alert',
+  color: 'primary',
+  hotkey: ''
+};
+
+const formatTime = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+// Parses m:ss or seconds; NaN when the value isn't a time
+const parseTime = (value: string): number => {
+  const match = value.trim().match(/^(?:(\d+):)?(\d+)$/);
+  if (!match) return NaN;
+  return match[1] !== undefined ? Number(match[1]) * 60 + Number(match[2]) : Number(match[2]);
+};
+
+const toForm = (definition: CustomTimerDefinition): TimerForm => ({
+  id: definition.id,
+  name: definition.name,
+  duration: formatTime(definition.duration),
+  minDuration: definition.minDuration !== undefined ? formatTime(definition.minDuration) : '',
+  maxDuration: definition.maxDuration !== undefined ? formatTime(definition.maxDuration) : '',
+  repeat: definition.repeat,
+  alertEvent: definition.alertEvent,
+  color: definition.color,
+  hotkey: definition.hotkey ?? ''
+});
+
+export const CustomTimerEditor: React.FC<CustomTimerEditorProps> = ({
+  open,
+  onOpenChange,
+  sounds,
+  profileNames,
+  activeProfile,
+  definitions,
+  onSave,
+  onDelete,
+  onMove,
+  onSelectProfile,
+  onCreateProfile,
+  onDeleteProfile
+}) => {
+  const { toast } = useToast();
+  const [form, setForm] = useState<TimerForm>(EMPTY_FORM);
+  const [newProfileName, setNewProfileName] = useState('');
+
+  const updateForm = (changes: Partial<TimerForm>) => setForm(prev => ({ ...prev, ...changes }));
+
+  const handleSave = () => {
+    const definition: CustomTimerDefinition = {
+      id: form.id ?? Date.now().toString(36),
+      name: form.name.trim(),
+      duration: parseTime(form.duration),
+      minDuration: form.minDuration.trim() ? parseTime(form.minDuration) : undefined,
+      maxDuration: form.maxDuration.trim() ? parseTime(form.maxDuration) : undefined,
+      repeat: form.repeat,
+      alertEvent: form.alertEvent,
+      color: form.color,
+      hotkey: form.hotkey.trim() ? form.hotkey.trim().toUpperCase() : undefined
+    };
+
+    const problem = validateCustomTimer(definition, definitions);
+    if (problem) {
+      toast({
+        title: "Invalid Timer",
+        description: problem,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    onSave(definition);
+    setForm(EMPTY_FORM);
+    toast({
+      title: form.id ? "Timer Updated" : "Timer Added",
+      description: `${definition.name} saved to ${activeProfile}`,
+      variant: "default"
+    });
+  };
+
+  const handleDelete = (definition: CustomTimerDefinition) => {
+    onDelete(definition.id);
+    if (form.id === definition.id) {
+      setForm(EMPTY_FORM);
+    }
+  };
+
+  const handleCreateProfile = () => {
+    if (!onCreateProfile(newProfileName)) {
+      toast({
+        title: "Invalid Profile",
+        description: "Profile names must be unique and not empty",
+        variant: "destructive"
+      });
+      return;
+    }
+    setNewProfileName('');
+    setForm(EMPTY_FORM);
+  };
+
+  const handleSelectProfile = (name: string) => {
+    onSelectProfile(name);
+    setForm(EMPTY_FORM);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Custom Timers</DialogTitle>
+          <DialogDescription>
+            Create your own timers. Each profile keeps its own list.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* Profiles */}
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="flex-1 min-w-[10rem]">
+              <Label htmlFor="custom-profile" className="text-xs">Profile</Label>
+              <Select value={activeProfile} onValueChange={handleSelectProfile}>
+                <SelectTrigger id="custom-profile">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {profileNames.map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onDeleteProfile}
+              disabled={profileNames.length <= 1}
+            >
+              <Trash2 className="h-4 w-4 mr-1" />
+              Delete
+            </Button>
+            <Input
+              className="flex-1 min-w-[10rem]"
+              placeholder="New profile name"
+              value={newProfileName}
+              onChange={(e) => setNewProfileName(e.target.value)}
+            />
+            <Button variant="outline" size="sm" onClick={handleCreateProfile}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          </div>
+
+          {/* Timers in display order */}
+          {definitions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No custom timers in this profile yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {definitions.map((definition, index) => (
+                <Card key={definition.id} className="p-2 flex items-center gap-2">
+                  <span className={cn("h-3 w-3 rounded-full", CUSTOM_TIMER_COLORS[definition.color].swatch)} />
+                  <span className="flex-1 font-medium">{definition.name}</span>
+                  <span className="font-mono text-sm text-muted-foreground">{formatTime(definition.duration)}</span>
+                  {definition.repeat && <span className="text-xs text-muted-foreground">repeats</span>}
+                  {definition.hotkey && (
+                    <span className="text-xs text-muted-foreground">Ctrl+Shift+{definition.hotkey}</span>
+                  )}
+                  <Button variant="ghost" size="sm" onClick={() => onMove(definition.id, -1)} disabled={index === 0}>
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => onMove(definition.id, 1)} disabled={index === definitions.length - 1}>
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setForm(toForm(definition))}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(definition)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </Card>
+              ))}
+            </div>
+          )}
+
+          {/* Create or edit */}
+          <Card className="p-4 space-y-3">
+            <h4 className="font-medium">{form.id ? 'Edit Timer' : 'New Timer'}</h4>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="col-span-2">
+                <Label htmlFor="custom-name">Name</Label>
+                <Input
+                  id="custom-name"
+                  value={form.name}
+                  onChange={(e) => updateForm({ name: e.target.value })}
+                  placeholder="e.g. Smoke restock"
+                />
+              </div>
+              <div>
+                <Label htmlFor="custom-duration">Duration (m:ss)</Label>
+                <Input
+                  id="custom-duration"
+                  value={form.duration}
+                  onChange={(e) => updateForm({ duration: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="custom-hotkey">Hotkey (Ctrl+Shift+…)</Label>
+                <Input
+                  id="custom-hotkey"
+                  value={form.hotkey}
+                  maxLength={1}
+                  onChange={(e) => updateForm({ hotkey: e.target.value.toUpperCase() })}
+                  placeholder="Optional"
+                />
+              </div>
+              <div>
+                <Label htmlFor="custom-min">Window opens (optional)</Label>
+                <Input
+                  id="custom-min"
+                  value={form.minDuration}
+                  onChange={(e) => updateForm({ minDuration: e.target.value })}
+                  placeholder="m:ss"
+                />
+              </div>
+              <div>
+                <Label htmlFor="custom-max">Window closes (optional)</Label>
+                <Input
+                  id="custom-max"
+                  value={form.maxDuration}
+                  onChange={(e) => updateForm({ maxDuration: e.target.value })}
+                  placeholder="m:ss"
+                />
+              </div>
+              <div>
+                <Label htmlFor="custom-sound">Alert sound</Label>
+                <Select value={form.alertEvent} onValueChange={(value) => updateForm({ alertEvent: value as NotificationEvent })}>
+                  <SelectTrigger id="custom-sound">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sounds.map(sound => (
+                      <SelectItem key={sound.id} value={sound.id}>{sound.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="custom-color">Colour</Label>
+                <Select value={form.color} onValueChange={(value) => updateForm({ color: value as CustomTimerColor })}>
+                  <SelectTrigger id="custom-color">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(CUSTOM_TIMER_COLORS) as CustomTimerColor[]).map(color => (
+                      <SelectItem key={color} value={color}>
+                        <span className="flex items-center gap-2">
+                          <span className={cn("h-3 w-3 rounded-full", CUSTOM_TIMER_COLORS[color].swatch)} />
+                          {CUSTOM_TIMER_COLORS[color].label}
+                        </span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="col-span-2 flex items-center gap-2">
+                <Switch id="custom-repeat" checked={form.repeat} onCheckedChange={(checked) => updateForm({ repeat: checked })} />
+                <Label htmlFor="custom-repeat">Repeat when it completes</Label>
+              </div>
+            </div>
+            <div className="flex gap-2 justify-end">
+              {form.id && (
+                <Button variant="ghost" size="sm" onClick={() => setForm(EMPTY_FORM)}>
+                  Cancel
+                </Button>
+              )}
+              <Button size="sm" onClick={handleSave}>
+                <Save className="h-4 w-4 mr-1" />
+                {form.id ? 'Update' : 'Add Timer'}
+              </Button>
+            </div>
+          </Card>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,48 @@
+import React from 'react';
+import { Moon, Sun } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { TimerCard } from './TimerCard';
+import type { DayNightStatus } from '@/hooks/useDayNight';
+import { DAY_NIGHT_TIMER, OVERRIDE_NAMES } from '@/utils/dayNight';
+
+interface DayNightCardProps {
+  status: DayNightStatus | null; // Null without the GSI game clock
+  className?: string;
+}
+
+const noop = () => {};
+
+export const DayNightCard: React.FC<DayNightCardProps> = ({ status, className }) => {
+  // The map's actual phase; Night Stalker forces night and Supernova day
+  const isDay = status?.override ? status.override === 'phoenix' : status?.isDay ?? true;
+
+  return (
+    <TimerCard
+      timer={{ ...DAY_NIGHT_TIMER, name: status ? (isDay ? 'Day' : 'Night') : DAY_NIGHT_TIMER.name }}
+      onStart={noop}
+      onStop={noop}
+      onPause={noop}
+      isActive={!!status}
+      isPaused={false}
+      timeRemaining={status?.remaining ?? DAY_NIGHT_TIMER.duration}
+      showControls={false}
+      className={className}
+    >
+      <div className="flex flex-col items-center gap-1 text-xs text-muted-foreground">
+        {!status ? (
+          <span>Follows the GSI game clock</span>
+        ) : (
+          <>
+            <span className="flex items-center gap-1">
+              {status.isDay ? <Moon className="h-3 w-3" /> : <Sun className="h-3 w-3" />}
+              Until {status.isDay ? 'night' : 'day'}
+            </span>
+            {status.override && (
+              <Badge variant="secondary">{OVERRIDE_NAMES[status.override]}</Badge>
+            )}
+          </>
+        )}
+      </div>
+    </TimerCard>
+  );
+};
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Play } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { Timer } from './TimerCard';
+import { createEnemyTimer, ENEMY_HEROES, getEnemyCooldown, getEnemyOptions } from '@/utils/enemyCooldowns';
+
+interface EnemyCooldownPickerProps {
+  onStart: (timer: Timer) => void;
+}
+
+export const EnemyCooldownPicker: React.FC<EnemyCooldownPickerProps> = ({ onStart }) => {
+  const [heroId, setHeroId] = useState(ENEMY_HEROES[0].id);
+  const [abilityId, setAbilityId] = useState(() => getEnemyOptions(ENEMY_HEROES[0].id)[0].id);
+  const [level, setLevel] = useState(3);
+  const [hasOctarine, setHasOctarine] = useState(false);
+
+  const hero = ENEMY_HEROES.find(h => h.id === heroId) ?? ENEMY_HEROES[0];
+  const options = getEnemyOptions(hero.id);
+  const ability = options.find(o => o.id === abilityId) ?? options[0];
+  const levelCount = ability.cooldowns.length;
+
+  const handleHeroChange = (id: string) => {
+    setHeroId(id);
+    // Keep a picked item, but switch ultimates over to the new hero's
+    if (!getEnemyOptions(id).some(o => o.id === abilityId)) {
+      setAbilityId(getEnemyOptions(id)[0].id);
+    }
+  };
+
+  const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-5 gap-2 items-end">
+      <div>
+        <Label htmlFor="enemy-hero" className="text-xs">Hero</Label>
+        <Select value={hero.id} onValueChange={handleHeroChange}>
+          <SelectTrigger id="enemy-hero">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ENEMY_HEROES.map(h => (
+              <SelectItem key={h.id} value={h.id}>{h.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div>
+        <Label htmlFor="enemy-ability" className="text-xs">Ability or item</Label>
+        <Select value={ability.id} onValueChange={setAbilityId}>
+          <SelectTrigger id="enemy-ability">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {options.map(o => (
+              <SelectItem key={o.id} value={o.id}>{o.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div>
+        <Label htmlFor="enemy-level" className="text-xs">Level</Label>
+        <Select
+          value={String(Math.min(level, levelCount))}
+          onValueChange={(value) => setLevel(Number(value))}
+          disabled={levelCount === 1}
+        >
+          <SelectTrigger id="enemy-level">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ability.cooldowns.map((cooldown, index) => (
+              <SelectItem key={index} value={String(index + 1)}>
+                {index + 1} ({formatTime(cooldown)})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-center gap-2 h-10">
+        <Checkbox
+          id="enemy-octarine"
+          checked={hasOctarine}
+          onCheckedChange={(checked) => setHasOctarine(checked === true)}
+        />
+        <Label htmlFor="enemy-octarine" className="text-sm">Octarine Core</Label>
+      </div>
+
+      <Button onClick={() => onStart(createEnemyTimer(hero, ability, Math.min(level, levelCount), hasOctarine))}>
+        <Play className="h-4 w-4 mr-1" />
+        Start {formatTime(getEnemyCooldown(ability, Math.min(level, levelCount), hasOctarine))}
+      </Button>
+    </div>
+  );
+};
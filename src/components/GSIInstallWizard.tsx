@@ -6,31 +6,14 @@ import { Badge } from '@/components/ui/badge';
 import { CheckCircle, Circle, Copy, ExternalLink, FolderOpen, FileText, Server, Gamepad2, RefreshCw } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useGSIValidation } from '@/hooks/useGSIValidation';
+import { useGSIAuthToken } from '@/hooks/useGSIAuthToken';
+import { createGSIConfig } from '@/utils/gsiConfig';
 
 interface GSIInstallWizardProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
 }
 
-const GSI_CONFIG_CONTENT = `"dota2-gsi Configuration"
-{
-    "uri"               "http://localhost:3000/gamestate"
-    "timeout"           "5.0"
-    "buffer"            "0.1"
-    "throttle"          "0.5"
-    "heartbeat"         "30.0"
-    "data"
-    {
-        "buildings"     "1"
-        "provider"      "1"
-        "map"           "1"
-        "player"        "1"
-        "hero"          "1"
-        "abilities"     "1"
-        "items"         "1"
-    }
-}`;
-
 const steps = [
   {
     id: 1,
@@ -41,7 +24,7 @@ const steps = [
   {
     id: 2,
     title: "Set Up GSI Server",
-    description: "Install and run the local GSI server",
+    description: "Run the local GSI server",
     icon: Server
   },
   {
@@ -57,6 +40,8 @@ export const GSIInstallWizard: React.FC<GSIInstallWizardProps> = ({ open, onOpen
   const [completedSteps, setCompletedSteps] = useState<number[]>([]);
   const { toast } = useToast();
   const { configFileExists, serverRunning, gameConnected, runValidation, isStepComplete } = useGSIValidation();
+  const { token: authToken, refresh: refreshAuthToken } = useGSIAuthToken(open);
+  const configContent = createGSIConfig(authToken);
 
   const copyToClipboard = async (text: string, label: string) => {
     try {
@@ -138,16 +123,21 @@ export const GSIInstallWizard: React.FC<GSIInstallWizardProps> = ({ open, onOpen
                 <p className="text-sm font-medium mb-2">3. Copy this content into the file:</p>
                 <Card className="p-3 bg-muted">
                   <div className="flex items-start justify-between">
-                    <pre className="text-xs overflow-x-auto flex-1 mr-2">{GSI_CONFIG_CONTENT}</pre>
+                    <pre className="text-xs overflow-x-auto flex-1 mr-2">{configContent}</pre>
                     <Button 
                       variant="ghost" 
                       size="sm"
-                      onClick={() => copyToClipboard(GSI_CONFIG_CONTENT, "Config content")}
+                      onClick={() => copyToClipboard(configContent, "Config content")}
                     >
                       <Copy className="h-4 w-4" />
                     </Button>
                   </div>
                 </Card>
+                <p className="text-xs text-muted-foreground mt-2">
+                  {authToken
+                    ? 'The auth token is unique to this install; the GSI server ignores updates without it.'
+                    : 'Replace the token with the one `npm run gsi-server` prints when it starts (also saved in ~/.sentinel-timer/gsi-token).'}
+                </p>
               </div>
             </div>
 
@@ -167,7 +157,7 @@ export const GSIInstallWizard: React.FC<GSIInstallWizardProps> = ({ open, onOpen
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={runValidation}
+                  onClick={() => { refreshAuthToken(); runValidation(); }}
                 >
                   <RefreshCw className="h-4 w-4" />
                 </Button>
@@ -200,58 +190,20 @@ export const GSIInstallWizard: React.FC<GSIInstallWizardProps> = ({ open, onOpen
             <div>
               <h3 className="font-semibold mb-2">Step 2: Set Up GSI Server</h3>
               <p className="text-sm text-muted-foreground mb-4">
-                Install and run a local server to receive game state data from Dota 2.
+                Run the local server that receives game state data from Dota 2.
               </p>
             </div>
 
             <div className="space-y-3">
               <div>
-                <p className="text-sm font-medium mb-2">Install a GSI server (choose one option):</p>
-                
-                <div className="space-y-2">
-                  <Card className="p-3">
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <p className="font-medium text-sm">Option A: Node.js GSI Server</p>
-                        <p className="text-xs text-muted-foreground">npm install -g dota2-gsi-server</p>
-                      </div>
-                      <Button 
-                        variant="ghost" 
-                        size="sm"
-                        onClick={() => copyToClipboard("npm install -g dota2-gsi-server", "npm command")}
-                      >
-                        <Copy className="h-4 w-4" />
-                      </Button>
-                    </div>
-                  </Card>
-
-                  <Card className="p-3">
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <p className="font-medium text-sm">Option B: Python GSI Server</p>
-                        <p className="text-xs text-muted-foreground">pip install dota2-gsi-server</p>
-                      </div>
-                      <Button 
-                        variant="ghost" 
-                        size="sm"
-                        onClick={() => copyToClipboard("pip install dota2-gsi-server", "pip command")}
-                      >
-                        <Copy className="h-4 w-4" />
-                      </Button>
-                    </div>
-                  </Card>
-                </div>
-              </div>
-
-              <div>
-                <p className="text-sm font-medium mb-2">Start the server on port 3000:</p>
+                <p className="text-sm font-medium mb-2">From your copy of Sentinel Timer, start the GSI server on port 3000:</p>
                 <Card className="p-3 bg-muted">
                   <div className="flex items-center justify-between">
-                    <code className="text-sm">dota2-gsi-server --port 3000</code>
+                    <code className="text-sm">npm run gsi-server -- --port 3000</code>
                     <Button 
                       variant="ghost" 
                       size="sm"
-                      onClick={() => copyToClipboard("dota2-gsi-server --port 3000", "Server command")}
+                      onClick={() => copyToClipboard("npm run gsi-server -- --port 3000", "Server command")}
                     >
                       <Copy className="h-4 w-4" />
                     </Button>
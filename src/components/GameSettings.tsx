@@ -1,14 +1,15 @@
 import React from 'react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import type { GameLane, GameMode, GameSide } from '@/utils/gameRules';
 
 interface GameSettingsProps {
-  side: 'radiant' | 'dire';
-  lane: 'safe' | 'mid' | 'off';
-  gameMode: 'allpick' | 'turbo';
-  onSideChange: (side: 'radiant' | 'dire') => void;
-  onLaneChange: (lane: 'safe' | 'mid' | 'off') => void;
-  onGameModeChange: (mode: 'allpick' | 'turbo') => void;
+  side: GameSide;
+  lane: GameLane;
+  gameMode: GameMode;
+  onSideChange: (side: GameSide) => void;
+  onLaneChange: (lane: GameLane) => void;
+  onGameModeChange: (mode: GameMode) => void;
 }
 
 export const GameSettings: React.FC<GameSettingsProps> = ({
@@ -20,7 +21,7 @@ export const GameSettings: React.FC<GameSettingsProps> = ({
   onGameModeChange,
 }) => {
   const handleLaneChange = () => {
-    const lanes: Array<'safe' | 'mid' | 'off'> = ['safe', 'mid', 'off'];
+    const lanes: GameLane[] = ['safe', 'mid', 'off'];
     const currentIndex = lanes.indexOf(lane);
     const nextIndex = (currentIndex + 1) % lanes.length;
     onLaneChange(lanes[nextIndex]);
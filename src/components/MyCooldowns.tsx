@@ -0,0 +1,99 @@
+import React from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { TimerCard } from './TimerCard';
+import type { ActiveCooldown } from '@/utils/cooldownTracking';
+import { getCooldownLabel, type CooldownSource } from '@/utils/cooldownTracking';
+
+interface MyCooldownsProps {
+  heroName: string;
+  cooldowns: ActiveCooldown[];
+  sources: CooldownSource[]; // Everything the hero can currently track
+  trackedNames: string[];
+  onTrackedChange: (name: string, tracked: boolean) => void;
+  onResetTracked: () => void;
+}
+
+const noop = () => {};
+
+export const MyCooldowns: React.FC<MyCooldownsProps> = ({
+  heroName,
+  cooldowns,
+  sources,
+  trackedNames,
+  onTrackedChange,
+  onResetTracked
+}) => {
+  // Tracked names not currently held still show up so they can be turned off
+  const options = [
+    ...sources.map(source => ({ name: source.name, label: source.label })),
+    ...trackedNames
+      .filter(name => !sources.some(source => source.name === name))
+      .map(name => ({ name, label: getCooldownLabel(name, heroName) }))
+  ];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold enchanted-text">
+          My Cooldowns <span className="text-sm font-normal text-muted-foreground">· {getCooldownLabel(heroName.replace(/^npc_dota_hero_/, ''))}</span>
+        </h3>
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm">
+              <SlidersHorizontal className="h-4 w-4 mr-1" />
+              Track
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="max-h-80 overflow-y-auto">
+            <div className="space-y-2">
+              <p className="text-xs text-muted-foreground">Saved for this hero</p>
+              {options.map(option => (
+                <div key={option.name} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`cooldown-${option.name}`}
+                    checked={trackedNames.includes(option.name)}
+                    onCheckedChange={(checked) => onTrackedChange(option.name, checked === true)}
+                  />
+                  <Label htmlFor={`cooldown-${option.name}`} className="text-sm">{option.label}</Label>
+                </div>
+              ))}
+              <Button variant="ghost" size="sm" className="w-full" onClick={onResetTracked}>
+                Use defaults
+              </Button>
+            </div>
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      {cooldowns.length === 0 ? (
+        <p className="text-xs text-muted-foreground">Tracked abilities and items appear here while on cooldown.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {cooldowns.map(cooldown => (
+            <TimerCard
+              key={cooldown.name}
+              timer={{
+                id: `cooldown-${cooldown.name}`,
+                name: cooldown.label,
+                duration: cooldown.duration,
+                type: 'cooldown'
+              }}
+              onStart={noop}
+              onStop={noop}
+              onPause={noop}
+              isActive
+              isPaused={false}
+              timeRemaining={Math.ceil(cooldown.cooldown)}
+              showControls={false}
+              className="animate-fade-in-up"
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
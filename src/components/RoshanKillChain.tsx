@@ -0,0 +1,37 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { getRoshanDrops, ROSHAN_DROP_NAMES } from '@/utils/roshanKillChain';
+
+interface RoshanKillChainProps {
+  kills: number;
+  aegisRemaining?: number; // Seconds until the Aegis expires, undefined when not held
+}
+
+const formatTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const remainingSeconds = seconds % 60;
+  return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+};
+
+export const RoshanKillChain: React.FC<RoshanKillChainProps> = ({ kills, aegisRemaining }) => {
+  const nextDrops = getRoshanDrops(kills + 1);
+
+  return (
+    <div className="space-y-1 text-xs text-muted-foreground border-t border-timer-border pt-2">
+      <div className="flex items-center justify-between">
+        <span>Kills this match</span>
+        <Badge variant="secondary">{kills}</Badge>
+      </div>
+      {aegisRemaining !== undefined && (
+        <div className="flex items-center justify-between">
+          <span>Aegis expires</span>
+          <span className="font-mono text-sm text-roshan">{formatTime(aegisRemaining)}</span>
+        </div>
+      )}
+      <div className="flex items-center justify-between gap-2">
+        <span>Next drop</span>
+        <span className="text-right">{nextDrops.map(drop => ROSHAN_DROP_NAMES[drop]).join(', ')}</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React from 'react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import type { UpcomingStackingWindow } from '@/hooks/useStackingAssistant';
+import { CAMP_TIMINGS } from '@/utils/neutralCamps';
+import { cn } from '@/lib/utils';
+
+interface StackingAssistantProps {
+  upcoming: UpcomingStackingWindow[];
+  hasGameClock: boolean;
+  isMuted: boolean;
+  enabled: boolean;
+  laningOnly: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  onLaningOnlyChange: (laningOnly: boolean) => void;
+}
+
+// Windows this close are highlighted as the ones to act on
+const IMMINENT_WINDOW = 10;
+
+export const StackingAssistant: React.FC<StackingAssistantProps> = ({
+  upcoming,
+  hasGameClock,
+  isMuted,
+  enabled,
+  laningOnly,
+  onEnabledChange,
+  onLaningOnlyChange
+}) => {
+  return (
+    <Card className="p-4 magical-card mystical-border">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold enchanted-text">Stacking Assistant</h3>
+        {isMuted && <Badge variant="secondary">Muted</Badge>}
+      </div>
+
+      <div className="space-y-2 mb-3">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="stacking-enabled" className="text-sm">Announce windows</Label>
+          <Switch id="stacking-enabled" checked={enabled} onCheckedChange={onEnabledChange} />
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="stacking-laning-only" className="text-sm">Laning phase only</Label>
+          <Switch id="stacking-laning-only" checked={laningOnly} onCheckedChange={onLaningOnlyChange} />
+        </div>
+      </div>
+
+      {!hasGameClock ? (
+        <p className="text-xs text-muted-foreground">
+          Connect GSI to sync pull and stack windows with the game clock.
+        </p>
+      ) : (
+        <div className="space-y-1">
+          {upcoming.map(window => (
+            <div
+              key={window.id}
+              className={cn(
+                "flex items-center justify-between text-sm",
+                window.secondsUntil <= IMMINENT_WINDOW ? "text-accent" : "text-muted-foreground"
+              )}
+            >
+              <div>
+                <div className="font-medium">
+                  {window.action === 'pull' ? 'Pull' : 'Stack'} {CAMP_TIMINGS[window.camp].name.toLowerCase()}
+                </div>
+                <div className="text-xs">{window.location} · :{String(window.second).padStart(2, '0')}</div>
+              </div>
+              <span className="font-mono">{window.secondsUntil}s</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
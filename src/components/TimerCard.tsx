@@ -1,8 +1,9 @@
-import { useState, useEffect } from 'react';
-import { Play, Pause, Square, Volume2 } from 'lucide-react';
+import { useState, useEffect, type ReactNode } from 'react';
+import { Play, Pause, Square, Volume2, ShoppingCart, RotateCcw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { cn } from '@/lib/utils';
+import type { NotificationEvent } from '@/hooks/useAudioBank';
 
 export interface Timer {
   id: string;
@@ -10,8 +11,14 @@ export interface Timer {
   duration: number;
   minDuration?: number;
   maxDuration?: number;
-  type: 'roshan' | 'rune' | 'neutral' | 'custom';
+  type: 'roshan' | 'rune' | 'neutral' | 'tormentor' | 'ward' | 'cooldown' | 'daynight' | 'custom';
   audioAlert?: boolean;
+  timingEventId?: string; // Matching TimingEvent id in useTimingConfiguration
+  location?: string; // Map location relevant to the player's side
+  side?: 'radiant' | 'dire'; // Side of the map the objective belongs to
+  warnings?: number[]; // Seconds before completion to warn at, largest first
+  repeat?: boolean; // Starts over on completion; map objectives on a schedule repeat regardless
+  alertEvent?: NotificationEvent; // Sound on completion, for timers without a built-in one
 }
 
 interface TimerCardProps {
@@ -23,6 +30,9 @@ interface TimerCardProps {
   isPaused: boolean;
   timeRemaining: number;
   className?: string;
+  children?: ReactNode; // Extra details rendered below the time display
+  stock?: { count: number; max: number }; // Shop stock; start records a purchase and stop resets the stock
+  showControls?: boolean; // False for timers driven entirely by GSI
 }
 
 export const TimerCard = ({
@@ -33,7 +43,10 @@ export const TimerCard = ({
   isActive,
   isPaused,
   timeRemaining,
-  className
+  className,
+  children,
+  stock,
+  showControls = true
 }: TimerCardProps) => {
   const [progress, setProgress] = useState(0);
   
@@ -60,18 +73,22 @@ export const TimerCard = ({
         return 'rune';
       case 'neutral':
         return 'neutral';
+      case 'tormentor':
+        return 'tormentor';
+      case 'ward':
+        return 'ward';
       default:
         return 'primary';
     }
   };
 
   const getStatusText = () => {
-    if (!isActive) return 'Ready';
+    if (!isActive) return stock ? 'Full' : 'Ready';
     if (isPaused) return 'Paused';
     if (timeRemaining <= 0) return 'ALERT!';
     
-    // Special handling for Roshan timer
-    if (timer.type === 'roshan' && timer.minDuration && timer.maxDuration) {
+    // Timers with a spawn window, like Roshan
+    if (timer.minDuration && timer.maxDuration) {
       const elapsed = timer.duration - timeRemaining;
       if (elapsed >= timer.minDuration && elapsed < timer.maxDuration) {
         return 'Can Spawn';
@@ -86,7 +103,7 @@ export const TimerCard = ({
 
   const colorClass = getTimerColor();
   const isAlertState = timeRemaining <= 0 || 
-    (timer.type === 'roshan' && timer.minDuration && 
+    (timer.minDuration && 
      (timer.duration - timeRemaining) >= timer.minDuration);
 
   return (
@@ -97,6 +114,10 @@ export const TimerCard = ({
       timer.type === 'rune' && "rune-mystical",
       timer.type === 'roshan' && isActive && "ancient-glow",
       timer.type === 'neutral' && "hover:animate-mystical-pulse",
+      timer.type === 'tormentor' && "border-tormentor/40",
+      timer.type === 'tormentor' && isActive && "tormentor-glow",
+      timer.type === 'ward' && "border-ward/40",
+      timer.type === 'daynight' && "border-accent/40",
       isActive && "animate-glow-pulse",
       isAlertState && "border-accent bg-gradient-accent ancient-glow animate-arcane-float",
       className
@@ -118,12 +139,17 @@ export const TimerCard = ({
       <div className="p-4 space-y-3">
         {/* Header */}
         <div className="flex items-center justify-between">
-          <h3 className={cn(
-            "font-semibold text-lg enchanted-text",
-            isAlertState && "text-accent animate-timer-pulse"
-          )}>
-            {timer.name}
-          </h3>
+          <div>
+            <h3 className={cn(
+              "font-semibold text-lg enchanted-text",
+              isAlertState && "text-accent animate-timer-pulse"
+            )}>
+              {timer.name}
+            </h3>
+            {timer.location && (
+              <p className="text-xs text-muted-foreground">{timer.location}</p>
+            )}
+          </div>
           {timer.audioAlert && (
             <Volume2 className={cn(
               "h-4 w-4",
@@ -141,8 +167,8 @@ export const TimerCard = ({
             {getStatusText()}
           </div>
           
-          {/* Roshan window indicators */}
-          {timer.type === 'roshan' && timer.minDuration && timer.maxDuration && isActive && (
+          {/* Spawn window indicators */}
+          {!!timer.minDuration && !!timer.maxDuration && isActive && (
             <div className="mt-2 text-sm text-muted-foreground">
               <div>Min: {formatTime(timer.minDuration)}</div>
               <div>Max: {formatTime(timer.maxDuration)}</div>
@@ -150,39 +176,83 @@ export const TimerCard = ({
           )}
         </div>
 
+        {/* Stock counter */}
+        {stock && (
+          <div className="flex flex-col items-center gap-1">
+            <div className="flex gap-1">
+              {Array.from({ length: stock.max }, (_, i) => (
+                <span
+                  key={i}
+                  className={cn(
+                    "h-2.5 w-2.5 rounded-full border border-ward",
+                    i < stock.count && "bg-ward"
+                  )}
+                />
+              ))}
+            </div>
+            <span className="text-xs text-muted-foreground">
+              {stock.count} / {stock.max} in stock
+            </span>
+          </div>
+        )}
+
+        {children}
+
         {/* Controls */}
-        <div className="flex gap-2 justify-center">
-          {!isActive ? (
-            <Button
-              onClick={() => onStart(timer.id)}
-              variant="default"
-              size="sm"
-              className="bg-gradient-primary hover:shadow-glow"
-            >
-              <Play className="h-4 w-4 mr-1" />
-              Start
-            </Button>
-          ) : (
-            <>
+        {showControls && (
+          <div className="flex gap-2 justify-center">
+            {stock ? (
+              <>
+                <Button
+                  onClick={() => onStart(timer.id)}
+                  variant="default"
+                  size="sm"
+                  disabled={stock.count === 0}
+                >
+                  <ShoppingCart className="h-4 w-4 mr-1" />
+                  Bought
+                </Button>
+                <Button
+                  onClick={() => onStop(timer.id)}
+                  variant="secondary"
+                  size="sm"
+                >
+                  <RotateCcw className="h-4 w-4 mr-1" />
+                  Reset
+                </Button>
+              </>
+            ) : !isActive ? (
               <Button
-                onClick={() => onPause(timer.id)}
-                variant="secondary"
+                onClick={() => onStart(timer.id)}
+                variant="default"
                 size="sm"
+                className="bg-gradient-primary hover:shadow-glow"
               >
-                <Pause className="h-4 w-4 mr-1" />
-                {isPaused ? 'Resume' : 'Pause'}
+                <Play className="h-4 w-4 mr-1" />
+                Start
               </Button>
-              <Button
-                onClick={() => onStop(timer.id)}
-                variant="destructive"
-                size="sm"
-              >
-                <Square className="h-4 w-4 mr-1" />
-                Stop
-              </Button>
-            </>
-          )}
-        </div>
+            ) : (
+              <>
+                <Button
+                  onClick={() => onPause(timer.id)}
+                  variant="secondary"
+                  size="sm"
+                >
+                  <Pause className="h-4 w-4 mr-1" />
+                  {isPaused ? 'Resume' : 'Pause'}
+                </Button>
+                <Button
+                  onClick={() => onStop(timer.id)}
+                  variant="destructive"
+                  size="sm"
+                >
+                  <Square className="h-4 w-4 mr-1" />
+                  Stop
+                </Button>
+              </>
+            )}
+          </div>
+        )}
       </div>
     </Card>
   );
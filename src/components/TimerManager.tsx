@@ -1,30 +1,85 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { TimerCard, type Timer } from './TimerCard';
 import { AudioBank } from './AudioBank';
 import { GSIInstallWizard } from './GSIInstallWizard';
 import { TimingConfiguration } from './TimingConfiguration';
 import { GameSettings } from './GameSettings';
+import { StackingAssistant } from './StackingAssistant';
+import { BuybackPanel } from './BuybackPanel';
+import { MyCooldowns } from './MyCooldowns';
+import { EnemyCooldownPicker } from './EnemyCooldownPicker';
+import { BuildingTracker } from './BuildingTracker';
+import { DayNightCard } from './DayNightCard';
+import { CustomTimerEditor } from './CustomTimerEditor';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Play, Pause, RotateCcw, Settings, TestTube, Wifi, WifiOff, HelpCircle } from 'lucide-react';
+import { Play, Pause, RotateCcw, Settings, TestTube, Wifi, WifiOff, HelpCircle, ListPlus } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useElectronGSI } from '@/hooks/useElectronGSI';
 import { useGameStateIntegration } from '@/hooks/useGameStateIntegration';
 import { useAudioBank } from '@/hooks/useAudioBank';
+import { useGameClock } from '@/hooks/useGameClock';
+import { useGSIEvents } from '@/hooks/useGSIEvents';
+import { useStackingAssistant } from '@/hooks/useStackingAssistant';
+import { useWardStock } from '@/hooks/useWardStock';
+import { useBuyback, type BuybackStatus } from '@/hooks/useBuyback';
+import { useBuildingTracker } from '@/hooks/useBuildingTracker';
+import { useDayNight } from '@/hooks/useDayNight';
+import { useCustomTimers } from '@/hooks/useCustomTimers';
+import { useMatchLifecycle } from '@/hooks/useMatchLifecycle';
+import { useMyCooldowns } from '@/hooks/useMyCooldowns';
+import type { ActiveCooldown } from '@/utils/cooldownTracking';
+import { useTimingConfigurationContext } from '@/hooks/useTimingConfigurationContext';
+import type { DotaGameState, GameState, GSIEvent, GSITeam } from '@/types/gsi';
 import type { NotificationEvent } from '@/hooks/useAudioBank';
 import { createTrackedInterval, clearTrackedInterval } from '@/utils/timeout';
 import { logger } from '@/utils/logger';
+import { cn } from '@/lib/utils';
 import { UpdateManager } from './UpdateManager';
+import { RoshanKillChain } from './RoshanKillChain';
+import { ROSHAN_CHAIN_TIMERS, SAME_KILL_WINDOW } from '@/utils/roshanKillChain';
+import { applyGameRules, detectGameMode, type GameLane, type GameSide } from '@/utils/gameRules';
+import { getFirstSpawn, getNextAlert } from '@/utils/periodicSchedule';
+import { CAMP_TIMINGS, type StackingWindow } from '@/utils/neutralCamps';
+import type { WardType } from '@/utils/wardStock';
+import { isEnemyTimerId } from '@/utils/enemyCooldowns';
+import { GLYPH_COOLDOWN, GLYPH_TIMER, refreshesGlyph, type BuildingStatus } from '@/utils/buildings';
+import { OVERRIDE_NAMES, type DayNightOverride } from '@/utils/dayNight';
+import { CUSTOM_TIMER_COLORS, isCustomTimerId, toCustomTimer } from '@/utils/customTimers';
+import { createMatchSummary } from '@/utils/matchLifecycle';
 
 interface ActiveTimer {
   id: string;
-  startTime: number;
+  startTime: number; // Seconds on the game clock timeline (see useGameClock)
   timeRemaining: number;
   isPaused: boolean;
-  pausedTime?: number;
+  pausedTime?: number; // Timeline value when this timer was paused on its own
+  duration?: number; // Length of the current cycle, when it differs from the timer's
+  label?: string; // Name of the upcoming spawn when it differs from the timer's
+  repeat?: boolean; // Re-arms for the next spawn instead of finishing
 }
 
+// Game states in which periodic timers run on their own from the game clock
+const SCHEDULED_GAME_STATES: DotaGameState[] = [
+  'DOTA_GAMERULES_STATE_PRE_GAME',
+  'DOTA_GAMERULES_STATE_GAME_IN_PROGRESS'
+];
+
+// GSI events older than this (in seconds) start timers silently
+const RECENT_EVENT_WINDOW = 10;
+
+// Applies a configured time to a timer, shifting its spawn window by the same amount
+const withConfiguredTime = (timer: Timer, time: number): Timer => {
+  const shift = time - timer.duration;
+  return {
+    ...timer,
+    duration: time,
+    minDuration: timer.minDuration !== undefined ? Math.max(0, timer.minDuration + shift) : undefined,
+    maxDuration: timer.maxDuration !== undefined ? timer.maxDuration + shift : undefined
+  };
+};
+
 const DEFAULT_TIMERS: Timer[] = [
   {
     id: 'roshan',
@@ -33,64 +88,289 @@ const DEFAULT_TIMERS: Timer[] = [
     minDuration: 480, // 8 minutes minimum
     maxDuration: 660, // 11 minutes maximum
     type: 'roshan',
-    audioAlert: true
+    audioAlert: true,
+    timingEventId: 'roshan-respawn'
   },
   {
     id: 'bounty-rune',
     name: 'Bounty Rune',
     duration: 300, // 5 minutes
     type: 'rune',
-    audioAlert: true
+    audioAlert: true,
+    timingEventId: 'bounty-rune'
   },
   {
     id: 'power-rune',
     name: 'Power Rune',
     duration: 120, // 2 minutes
     type: 'rune',
-    audioAlert: true
+    audioAlert: true,
+    timingEventId: 'power-rune'
   },
   {
     id: 'lotus',
     name: 'Lotus',
     duration: 180, // 3 minutes
     type: 'rune',
-    audioAlert: true
+    audioAlert: true,
+    timingEventId: 'lotus-pool'
   },
   {
     id: 'neutral-pull',
     name: 'Neutral Pull',
     duration: 60, // 1 minute
     type: 'neutral',
-    audioAlert: true
+    audioAlert: true,
+    timingEventId: 'neutral-pull'
   },
   {
     id: 'wisdom-shrine',
     name: 'Wisdom Shrine',
     duration: 420, // 7 minutes
     type: 'neutral',
-    audioAlert: true
+    audioAlert: true,
+    timingEventId: 'wisdom-shrine'
+  },
+  {
+    id: 'tormentor-radiant',
+    name: 'Tormentor',
+    duration: 600, // 10 minutes
+    type: 'tormentor',
+    audioAlert: true,
+    timingEventId: 'tormentor',
+    side: 'radiant'
+  },
+  {
+    id: 'tormentor-dire',
+    name: 'Tormentor',
+    duration: 600, // 10 minutes
+    type: 'tormentor',
+    audioAlert: true,
+    timingEventId: 'tormentor',
+    side: 'dire'
+  },
+  {
+    id: 'observer-ward',
+    name: 'Observer Wards',
+    duration: 135, // 2 minutes 15 seconds
+    type: 'ward',
+    audioAlert: true,
+    timingEventId: 'observer-ward'
+  },
+  {
+    id: 'sentry-ward',
+    name: 'Sentry Wards',
+    duration: 85, // 1 minute 25 seconds
+    type: 'ward',
+    audioAlert: true,
+    timingEventId: 'sentry-ward'
   }
 ];
 
+// Ward stock cards by timer id; they show the shop stock instead of running as timers
+const WARD_TIMERS: Record<string, WardType> = {
+  'observer-ward': 'observer',
+  'sentry-ward': 'sentry'
+};
+
 export const TimerManager = () => {
   const [activeTimers, setActiveTimers] = useState<Record<string, ActiveTimer>>({});
+  const [roshanKills, setRoshanKills] = useState(0);
+  const [enemyTimers, setEnemyTimers] = useState<Timer[]>([]);
   const [isPaused, setIsPaused] = useState(false);
   const [testMode, setTestMode] = useState(false);
-  const [side, setSide] = useState<'radiant' | 'dire'>('radiant');
-  const [lane, setLane] = useState<'safe' | 'mid' | 'off'>('safe');
-  const [gameMode, setGameMode] = useState<'allpick' | 'turbo'>('allpick');
-  const [gameTimeOffset, setGameTimeOffset] = useState<number>(0); // Offset between game time and local time
+  const [side, setSide] = useState<GameSide>('radiant');
+  const [lane, setLane] = useState<GameLane>('safe');
+  const [stackingEnabled, setStackingEnabled] = useState(true);
+  const [stackingLaningOnly, setStackingLaningOnly] = useState(true);
   const [showInstallWizard, setShowInstallWizard] = useState(false);
   const [showTimingConfig, setShowTimingConfig] = useState(false);
+  const [showCustomTimers, setShowCustomTimers] = useState(false);
   const { toast } = useToast();
   
-  const { playEvent } = useAudioBank();
+  const { playEvent, audioFiles } = useAudioBank();
+  const customTimers = useCustomTimers();
+  const { gameMode, setGameMode, getConfiguredTime, getWarningTimes, getSpawnSchedule, isEventAvailable } = useTimingConfigurationContext();
   
   // Use Electron GSI if available, fallback to web GSI
   const electronGSI = useElectronGSI();
   const webGSI = useGameStateIntegration();
-  const { gameState, connectionStatus, isConnected, error, connect, disconnect, syncGameTime, isGameInProgress } = 
+  const { gameState, connectionStatus, isConnected, error, authFailing, connect, disconnect, syncGameTime, isGameInProgress } = 
     electronGSI.isElectron ? electronGSI : webGSI;
+  const { now: clockNow, gameTime: clockGameTime, source: clockSource } = useGameClock(gameState, isConnected);
+
+  // The game clock stands still while the game is paused, and every timer with it
+  const isGamePaused = clockSource === 'game' && !!gameState?.paused;
+  const timersFrozen = isPaused || isGamePaused;
+
+  const activeTimersRef = useRef(activeTimers);
+  activeTimersRef.current = activeTimers;
+  // Periodic timers the user stopped stay off until started again
+  const stoppedPeriodicRef = useRef(new Set<string>());
+
+  // Timer definitions with the active preset, game mode and side rules applied
+  const gridTimers = useMemo(
+    () => DEFAULT_TIMERS.filter(timer => !timer.timingEventId || isEventAvailable(timer.timingEventId)).map(timer => {
+      const configured = timer.timingEventId
+        ? { ...withConfiguredTime(timer, getConfiguredTime(timer.timingEventId)), warnings: getWarningTimes(timer.timingEventId) }
+        : timer;
+      return applyGameRules(configured, { mode: gameMode, side });
+    }),
+    [gameMode, side, getConfiguredTime, getWarningTimes, isEventAvailable]
+  );
+
+  // The active profile's custom timers, in the order the user arranged them
+  const customGridTimers = useMemo(() => customTimers.definitions.map(toCustomTimer), [customTimers.definitions]);
+  const customColors = useMemo(
+    () => Object.fromEntries(customTimers.definitions.map(d => [toCustomTimer(d).id, CUSTOM_TIMER_COLORS[d.color].className])),
+    [customTimers.definitions]
+  );
+  const builtInSounds = useMemo(
+    () => audioFiles.filter(file => file.isBuiltIn).map(file => ({ id: file.id as NotificationEvent, label: file.name })),
+    [audioFiles]
+  );
+
+  // Every timer that can be active, including those only shown inside other cards
+  const timers = useMemo(
+    () => [
+      ...gridTimers,
+      ...ROSHAN_CHAIN_TIMERS.map(timer => applyGameRules(timer, { mode: gameMode, side })),
+      GLYPH_TIMER,
+      ...enemyTimers,
+      ...customGridTimers
+    ],
+    [gridTimers, gameMode, side, enemyTimers, customGridTimers]
+  );
+  const findTimer = useCallback((id: string) => timers.find(t => t.id === id), [timers]);
+
+  const handleStackingWindow = useCallback((window: StackingWindow, secondsUntil: number) => {
+    toast({
+      title: `${window.action === 'pull' ? 'Pull' : 'Stack'} ${CAMP_TIMINGS[window.camp].name.toLowerCase()} in ${secondsUntil}s`,
+      description: `${window.location} at :${String(window.second).padStart(2, '0')}`,
+      variant: "warning"
+    });
+    playEvent('neutral-ready');
+  }, [toast, playEvent]);
+
+  const stacking = useStackingAssistant({
+    gameTime: clockGameTime,
+    side,
+    lane,
+    ancientStackSecond: getConfiguredTime('ancient-stack'),
+    enabled: stackingEnabled,
+    laningOnly: stackingLaningOnly,
+    onAnnounce: handleStackingWindow
+  });
+
+  const handleNightWarning = useCallback((secondsUntil: number) => {
+    toast({
+      title: `Night in ${secondsUntil}s`,
+      description: "Vision shrinks when night falls",
+      variant: "warning"
+    });
+    playEvent('timer-warning');
+  }, [toast, playEvent]);
+
+  const handleDayNightChange = useCallback((isDay: boolean) => {
+    toast({
+      title: isDay ? "Day Has Broken" : "Night Has Fallen",
+      description: `${isDay ? 'Night' : 'Day'} returns in 5:00`,
+      variant: "default"
+    });
+    if (!isDay) {
+      playEvent('night-fall');
+    }
+  }, [toast, playEvent]);
+
+  const handleDayNightOverride = useCallback((override: DayNightOverride) => {
+    toast({
+      title: override === 'nightstalker' ? "Night Forced" : "Daylight Forced",
+      description: `${OVERRIDE_NAMES[override]} is holding the cycle`,
+      variant: "warning"
+    });
+  }, [toast]);
+
+  const dayNight = useDayNight({
+    gameTime: clockGameTime,
+    flagsClockTime: gameState?.clock_time,
+    daytime: gameState?.daytime,
+    nightstalkerNight: gameState?.nightstalker_night,
+    onNightWarning: handleNightWarning,
+    onPhaseChange: handleDayNightChange,
+    onOverride: handleDayNightOverride
+  });
+
+  const wardIntervals = useMemo(() => ({
+    observer: findTimer('observer-ward')?.duration ?? 0,
+    sentry: findTimer('sentry-ward')?.duration ?? 0
+  }), [findTimer]);
+
+  const handleWardRestock = useCallback((type: WardType) => {
+    const timer = findTimer(type === 'observer' ? 'observer-ward' : 'sentry-ward');
+    if (!timer) return;
+
+    toast({
+      title: `${type === 'observer' ? 'Observer' : 'Sentry'} Ward Available`,
+      description: "A new ward is in stock at the shop",
+      variant: "default"
+    });
+    if (timer.audioAlert) {
+      playEvent('ward-available');
+    }
+  }, [findTimer, toast, playEvent]);
+
+  const { stocks: wardStocks, takeWard, resetStock: resetWardStock } = useWardStock({
+    now: clockNow,
+    gameTime: clockGameTime,
+    intervals: wardIntervals,
+    items: gameState?.items,
+    gold: gameState?.player?.gold,
+    onRestock: handleWardRestock
+  });
+
+  const handleBuybackReady = useCallback((status: BuybackStatus) => {
+    toast({
+      title: "Buyback Ready",
+      description: status.canAfford
+        ? `Buyback available for ${status.cost} gold`
+        : `Off cooldown, but ${status.cost - status.gold} gold short`,
+      variant: "default"
+    });
+    playEvent('buyback-ready');
+  }, [toast, playEvent]);
+
+  const buyback = useBuyback(gameState, handleBuybackReady);
+
+  const handleCooldownReady = useCallback((cooldown: ActiveCooldown) => {
+    toast({
+      title: `${cooldown.label} Ready`,
+      description: `Your ${cooldown.kind} is off cooldown`,
+      variant: "default"
+    });
+    playEvent('cooldown-ready');
+  }, [toast, playEvent]);
+
+  const myCooldowns = useMyCooldowns(gameState, handleCooldownReady);
+
+  // Pick up the game mode once per match when GSI reports it
+  const detectedMatchRef = useRef<string | null>(null);
+  useEffect(() => {
+    const matchId = gameState?.matchid;
+    if (!matchId || detectedMatchRef.current === matchId) return;
+
+    const detected = detectGameMode(gameState);
+    if (!detected) return;
+
+    detectedMatchRef.current = matchId;
+    if (detected !== gameMode) {
+      setGameMode(detected);
+      toast({
+        title: "Game Mode Detected",
+        description: `Timings switched to ${detected === 'turbo' ? 'Turbo' : 'All Pick'}`,
+        variant: "default"
+      });
+    }
+  }, [gameState, gameMode, setGameMode, toast]);
 
   const handleTimerAlert = useCallback((timer: Timer) => {
     toast({
@@ -106,13 +386,65 @@ export const TimerManager = () => {
         'power-rune': 'rune-spawn',
         'lotus': 'lotus-bloom',
         'neutral-pull': 'neutral-ready',
-        'wisdom-shrine': 'wisdom-available'
+        'wisdom-shrine': 'wisdom-available',
+        'tormentor-radiant': 'tormentor-spawn',
+        'tormentor-dire': 'tormentor-spawn'
       };
-      const evt = mapping[timer.id] || 'timer-alert';
+      const evt = mapping[timer.id] || timer.alertEvent || 'timer-alert';
       playEvent(evt);
     }
   }, [toast, playEvent]);
 
+  const handleTimerWarning = useCallback((timer: Timer, lead: number, isFinal: boolean) => {
+    const leadText = lead < 60 ? `${lead}s` : `${Math.floor(lead / 60)}:${String(lead % 60).padStart(2, '0')}`;
+    toast({
+      title: `${timer.name} in ${leadText}`,
+      description: timer.location ? `Head to ${timer.location}` : `${timer.name} is coming up`,
+      variant: isFinal ? "urgent" : "warning"
+    });
+
+    if (timer.audioAlert) {
+      playEvent(isFinal ? 'timer-warning-final' : 'timer-warning');
+    }
+  }, [toast, playEvent]);
+
+  // Timers of map objectives that spawn on a fixed schedule
+  const isPeriodicTimer = useCallback((timer: Timer) =>
+    !!timer.timingEventId && getSpawnSchedule(timer.timingEventId) !== null, [getSpawnSchedule]);
+
+  // Cycle of a periodic timer starting at a timeline value. Follows the spawn
+  // schedule on the game clock; without one it repeats every interval
+  const getNextCycle = useCallback((timer: Timer, from: number): { duration: number; label?: string } => {
+    const schedule = timer.timingEventId ? getSpawnSchedule(timer.timingEventId) : null;
+    const currentGameTime = clockGameTime();
+    if (!schedule || currentGameTime === null) {
+      return { duration: timer.duration };
+    }
+
+    const fromClockTime = currentGameTime - (clockNow() - from);
+    const alert = getNextAlert(schedule, fromClockTime);
+    return { duration: alert.time - fromClockTime, label: alert.label };
+  }, [clockGameTime, clockNow, getSpawnSchedule]);
+
+  // Moves a completed repeating timer on to the next spawn, skipping any cycles missed in between
+  const rearmTimer = useCallback((timer: Timer, active: ActiveTimer): ActiveTimer => {
+    const now = clockNow();
+    let startTime = active.startTime + (active.duration ?? timer.duration);
+    let cycle = getNextCycle(timer, startTime);
+    while (startTime + cycle.duration <= now) {
+      startTime += cycle.duration;
+      cycle = getNextCycle(timer, startTime);
+    }
+
+    return {
+      ...active,
+      startTime,
+      duration: cycle.duration,
+      label: cycle.label,
+      timeRemaining: cycle.duration - Math.floor(now - startTime)
+    };
+  }, [clockNow, getNextCycle]);
+
   // Update timers every second with tracked interval
   useEffect(() => {
     const interval = createTrackedInterval(() => {
@@ -126,20 +458,37 @@ export const TimerManager = () => {
           Object.keys(updated).forEach(id => {
             const timer = updated[id];
             if (!timer.isPaused) {
-              const elapsed = Date.now() - timer.startTime;
-              const newTimeRemaining = Math.max(0, DEFAULT_TIMERS.find(t => t.id === id)?.duration || 0) - Math.floor(elapsed / 1000);
+              const timerConfig = findTimer(id);
+              // Timers armed before the horn start in the future; hold them at their full duration
+              const elapsed = Math.max(0, clockNow() - timer.startTime);
+              const newTimeRemaining = Math.max(0, timer.duration ?? timerConfig?.duration ?? 0) - Math.floor(elapsed);
               
               if (newTimeRemaining !== timer.timeRemaining) {
-                timer.timeRemaining = newTimeRemaining;
+                updated[id] = { ...timer, timeRemaining: newTimeRemaining };
                 hasChanges = true;
 
+                // Alerts name the upcoming spawn, e.g. a water rune on the power rune timer
+                const alertTimer = timerConfig && timer.label ? { ...timerConfig, name: timer.label } : timerConfig;
+
+                // Lead-time warnings crossed since the last tick; the smallest is the final one
+                if (alertTimer && newTimeRemaining > 0) {
+                  alertTimer.warnings?.forEach((lead, index, leads) => {
+                    if (timer.timeRemaining > lead && newTimeRemaining <= lead) {
+                      handleTimerWarning(alertTimer, lead, index === leads.length - 1);
+                    }
+                  });
+                }
+
                 // Check for alerts
-                const timerConfig = DEFAULT_TIMERS.find(t => t.id === id);
-                if (timerConfig && newTimeRemaining <= 0) {
-                  handleTimerAlert(timerConfig);
-                  delete updated[id];
+                if (alertTimer && newTimeRemaining <= 0) {
+                  handleTimerAlert(alertTimer);
+                  if (timer.repeat) {
+                    updated[id] = rearmTimer(alertTimer, timer);
+                  } else {
+                    delete updated[id];
+                  }
                 } else if (timerConfig?.type === 'roshan' && timerConfig.minDuration) {
-                  const totalElapsed = Math.floor(elapsed / 1000);
+                  const totalElapsed = Math.floor(elapsed);
                   if (totalElapsed === timerConfig.minDuration) {
                     toast({
                       title: "Roshan Alert!",
@@ -148,6 +497,15 @@ export const TimerManager = () => {
                     });
                     playEvent('roshan-spawn');
                   }
+                } else if (timerConfig?.type === 'custom' && timerConfig.minDuration) {
+                  if (Math.floor(elapsed) === timerConfig.minDuration) {
+                    toast({
+                      title: `${timerConfig.name} Window Open`,
+                      description: `${timerConfig.name} can happen from now on`,
+                      variant: "default"
+                    });
+                    playEvent(timerConfig.alertEvent ?? 'timer-alert');
+                  }
                 }
               }
             }
@@ -161,83 +519,376 @@ export const TimerManager = () => {
     }, 1000);
 
     return () => clearTrackedInterval(interval);
-  }, [isPaused, toast, playEvent, handleTimerAlert]);
+  }, [isPaused, toast, playEvent, handleTimerAlert, handleTimerWarning, clockNow, findTimer, rearmTimer]);
 
-  const startTimer = useCallback((id: string) => {
-    const timer = DEFAULT_TIMERS.find(t => t.id === id);
+  // Starts a timer without notifying; startedAt is a clock timeline value. A
+  // duration replaces the timer's own for this run, e.g. until a first spawn
+  const armTimer = useCallback((id: string, startedAt: number, duration?: number) => {
+    const timer = findTimer(id);
     if (!timer) return;
 
+    const repeat = isPeriodicTimer(timer) || !!timer.repeat;
+    const cycle = repeat ? getNextCycle(timer, startedAt) : { duration: duration ?? timer.duration };
+    const elapsed = Math.max(0, Math.floor(clockNow() - startedAt));
     setActiveTimers(prev => ({
       ...prev,
       [id]: {
         id,
-        startTime: Date.now(),
-        timeRemaining: timer.duration,
-        isPaused: false
+        startTime: startedAt,
+        timeRemaining: cycle.duration - elapsed,
+        isPaused: false,
+        ...(duration !== undefined && { duration }),
+        ...(repeat && { duration: cycle.duration, label: cycle.label, repeat })
       }
     }));
+  }, [clockNow, findTimer, getNextCycle, isPeriodicTimer]);
+
+  // Starts the Roshan timer and its kill chain, unless this re-syncs the running kill
+  const armRoshanKill = useCallback((startedAt: number) => {
+    const current = activeTimersRef.current['roshan'];
+    const isSameKill = !!current && Math.abs(current.startTime - startedAt) <= SAME_KILL_WINDOW;
+
+    armTimer('roshan', startedAt);
+    if (!isSameKill) {
+      setRoshanKills(prev => prev + 1);
+      ROSHAN_CHAIN_TIMERS.forEach(t => armTimer(t.id, startedAt));
+    }
+  }, [armTimer]);
+
+  const startTimer = useCallback((id: string) => {
+    const timer = findTimer(id);
+    if (!timer) return;
+
+    stoppedPeriodicRef.current.delete(id);
+    if (id === 'roshan') {
+      armRoshanKill(clockNow());
+    } else {
+      armTimer(id, clockNow());
+    }
 
     toast({
       title: "Timer Started",
       description: `${timer.name} timer started`,
       variant: "default"
     });
-  }, [toast]);
+  }, [toast, armTimer, armRoshanKill, clockNow, findTimer]);
+
+  // Adds or replaces an enemy cooldown timer and starts it right away
+  const startEnemyCooldown = useCallback((timer: Timer) => {
+    setEnemyTimers(prev => prev.some(t => t.id === timer.id)
+      ? prev.map(t => t.id === timer.id ? timer : t)
+      : [...prev, timer]);
+    setActiveTimers(prev => ({
+      ...prev,
+      [timer.id]: {
+        id: timer.id,
+        startTime: clockNow(),
+        timeRemaining: timer.duration,
+        isPaused: false
+      }
+    }));
+
+    toast({
+      title: "Enemy Cooldown Started",
+      description: `${timer.name} ready in ${Math.floor(timer.duration / 60)}:${String(timer.duration % 60).padStart(2, '0')}`,
+      variant: "default"
+    });
+  }, [clockNow, toast]);
+
+  // Start the Roshan timer from the moment of the kill reported by GSI
+  const handleRoshanKilled = useCallback((sinceKill: number) => {
+    const roshan = findTimer('roshan');
+    if (!roshan || sinceKill >= roshan.duration) return; // Stale kill from earlier in the match
+
+    armRoshanKill(clockNow() - sinceKill);
+    logger.info('Roshan kill detected from GSI', { sinceKill });
+
+    if (sinceKill <= RECENT_EVENT_WINDOW) {
+      toast({
+        title: "Roshan Killed",
+        description: "Roshan timer started automatically",
+        variant: "default"
+      });
+      playEvent('roshan-death');
+    }
+  }, [armRoshanKill, clockNow, toast, playEvent, findTimer]);
+
+  // Clears a running timer without the stop notification
+  const clearTimer = useCallback((id: string) => {
+    setActiveTimers(prev => {
+      if (!prev[id]) return prev;
+      const updated = { ...prev };
+      delete updated[id];
+      return updated;
+    });
+  }, []);
+
+  const handleBuildingDestroyed = useCallback((building: BuildingStatus) => {
+    const isOurs = building.team === side;
+    const glyphRefreshed = isOurs && refreshesGlyph(building);
+    if (glyphRefreshed) {
+      clearTimer(GLYPH_TIMER.id);
+    }
+
+    toast({
+      title: `${isOurs ? 'Our' : 'Enemy'} ${building.label}${building.kind === 'barracks' ? ' Barracks' : ''} Destroyed`,
+      description: glyphRefreshed ? "Our glyph is ready again" : `${building.team === 'radiant' ? 'Radiant' : 'Dire'} structure has fallen`,
+      variant: isOurs ? "warning" : "default"
+    });
+    if (building.kind === 'tower') {
+      playEvent('tower-destroyed');
+    }
+  }, [side, clearTimer, toast, playEvent]);
+
+  // Follow our glyph from the reported cooldown; the enemy's is only shown on the map
+  const handleGlyphCooldown = useCallback((team: GSITeam, cooldown: number) => {
+    if (team !== side) return;
+    if (cooldown > 0) {
+      armTimer(GLYPH_TIMER.id, clockNow() - Math.max(0, GLYPH_COOLDOWN - cooldown));
+    } else {
+      clearTimer(GLYPH_TIMER.id);
+    }
+  }, [side, armTimer, clearTimer, clockNow]);
+
+  const buildingTracker = useBuildingTracker({
+    buildings: gameState?.buildings,
+    glyphCooldown: gameState?.glyph_cooldown,
+    gameTime: clockGameTime,
+    onDestroyed: handleBuildingDestroyed,
+    onGlyphCooldown: handleGlyphCooldown
+  });
+
+  // Custom timers deleted or left behind by a profile switch stop running
+  useEffect(() => {
+    setActiveTimers(prev => {
+      const orphaned = Object.keys(prev).filter(id => isCustomTimerId(id) && !customGridTimers.some(t => t.id === id));
+      if (orphaned.length === 0) return prev;
+      const updated = { ...prev };
+      orphaned.forEach(id => delete updated[id]);
+      return updated;
+    });
+  }, [customGridTimers]);
+
+  // Seconds elapsed since a GSI event, or null without a game clock
+  const secondsSinceEvent = useCallback((event: GSIEvent): number | null => {
+    const currentGameTime = clockGameTime();
+    if (currentGameTime === null || !gameState) return null;
+    // Events are stamped with game_time; the clock follows clock_time
+    const eventClockTime = event.game_time - (gameState.game_time - gameState.clock_time);
+    return Math.max(0, currentGameTime - eventClockTime);
+  }, [clockGameTime, gameState]);
+
+  useGSIEvents(gameState, {
+    roshan_killed: (event) => {
+      const sinceKill = secondsSinceEvent(event);
+      if (sinceKill !== null) handleRoshanKilled(sinceKill);
+    },
+    aegis_picked_up: (event) => {
+      const sincePickup = secondsSinceEvent(event);
+      const aegis = findTimer('aegis');
+      if (sincePickup === null || !aegis || sincePickup >= aegis.duration) return;
+      armTimer('aegis', clockNow() - sincePickup);
+    },
+    aegis_denied: () => {
+      clearTimer('aegis');
+    }
+  });
+
+  // Fallback for payloads without events: Roshan entering his base respawn phase
+  const previousRoshanStateRef = useRef<GameState['roshan_state']>();
+  useEffect(() => {
+    const roshanState = gameState?.roshan_state;
+    const previous = previousRoshanStateRef.current;
+    previousRoshanStateRef.current = roshanState;
+
+    if (roshanState !== 'respawn_base' || previous === 'respawn_base') return;
+    if (activeTimers['roshan'] || gameState?.roshan_state_end_seconds === undefined) return;
+
+    const roshan = findTimer('roshan');
+    if (roshan?.minDuration) {
+      handleRoshanKilled(Math.max(0, roshan.minDuration - gameState.roshan_state_end_seconds));
+    }
+  }, [gameState, activeTimers, handleRoshanKilled, findTimer]);
+
+  // Periodic timers run on their own while the game clock is available, and
+  // respawning objectives count down to their first spawn from the horn
+  useEffect(() => {
+    if (clockSource !== 'game' || !gameState || !SCHEDULED_GAME_STATES.includes(gameState.game_state)) return;
+
+    gridTimers.forEach(timer => {
+      if (activeTimers[timer.id] || stoppedPeriodicRef.current.has(timer.id)) return;
+
+      if (isPeriodicTimer(timer)) {
+        armTimer(timer.id, clockNow());
+        return;
+      }
+
+      const firstSpawn = timer.timingEventId ? getFirstSpawn(timer.timingEventId, gameMode) : null;
+      const currentGameTime = clockGameTime();
+      if (firstSpawn !== null && currentGameTime !== null && currentGameTime < firstSpawn) {
+        armTimer(timer.id, clockNow() - currentGameTime, firstSpawn);
+      }
+    });
+  }, [clockSource, gameState, gridTimers, activeTimers, armTimer, clockNow, clockGameTime, isPeriodicTimer, gameMode]);
 
   const stopTimer = useCallback((id: string) => {
+    stoppedPeriodicRef.current.add(id);
     setActiveTimers(prev => {
       const updated = { ...prev };
       delete updated[id];
+      // Linked timers go with the Roshan timer
+      if (id === 'roshan') {
+        ROSHAN_CHAIN_TIMERS.forEach(t => delete updated[t.id]);
+      }
       return updated;
     });
+    // Stopped enemy cooldowns are no longer tracked at all
+    if (isEnemyTimerId(id)) {
+      setEnemyTimers(prev => prev.filter(t => t.id !== id));
+    }
 
-    const timer = DEFAULT_TIMERS.find(t => t.id === id);
+    const timer = findTimer(id);
     toast({
       title: "Timer Stopped",
       description: `${timer?.name} timer stopped`,
       variant: "default"
     });
-  }, [toast]);
+  }, [toast, findTimer]);
 
   const pauseTimer = useCallback((id: string) => {
     setActiveTimers(prev => {
       const timer = prev[id];
       if (!timer) return prev;
 
+      if (!timer.isPaused) {
+        return { ...prev, [id]: { ...timer, isPaused: true, pausedTime: clockNow() } };
+      }
+
+      // Resume where it left off by moving the start past the time spent paused
+      const pausedFor = timer.pausedTime !== undefined ? clockNow() - timer.pausedTime : 0;
       return {
         ...prev,
-        [id]: {
-          ...timer,
-          isPaused: !timer.isPaused,
-          pausedTime: !timer.isPaused ? Date.now() : undefined
-        }
+        [id]: { ...timer, isPaused: false, pausedTime: undefined, startTime: timer.startTime + pausedFor }
       };
     });
-  }, []);
+  }, [clockNow]);
+
+  // Pauses or resumes every running timer. Timers run on the timeline, so on
+  // resume they are moved on by the time spent paused
+  const globalPausedAtRef = useRef<number | null>(null);
+  const setTimersPaused = useCallback((paused: boolean) => {
+    if (paused) {
+      globalPausedAtRef.current ??= clockNow();
+    } else if (globalPausedAtRef.current !== null) {
+      const now = clockNow();
+      const pausedAt = globalPausedAtRef.current;
+      globalPausedAtRef.current = null;
+      setActiveTimers(prev => {
+        const updated: Record<string, ActiveTimer> = {};
+        Object.values(prev).forEach(timer => {
+          // Timers paused on their own keep their own pause time; timers started
+          // during the pause only lose the part of it since they started
+          const pausedFor = Math.max(0, now - Math.max(pausedAt, timer.startTime));
+          updated[timer.id] = timer.isPaused ? timer : { ...timer, startTime: timer.startTime + pausedFor };
+        });
+        return updated;
+      });
+    }
+    setIsPaused(paused);
+  }, [clockNow]);
 
   const pauseAllTimers = useCallback(() => {
-    setIsPaused(!isPaused);
+    setTimersPaused(!isPaused);
     toast({
       title: isPaused ? "Timers Resumed" : "All Timers Paused",
       description: isPaused ? "All timers have been resumed" : "All timers have been paused",
       variant: "default"
     });
-  }, [isPaused, toast]);
+  }, [isPaused, setTimersPaused, toast]);
 
-  const resetAllTimers = useCallback(() => {
+  // Stops every timer and forgets per-match state
+  const clearMatchState = useCallback(() => {
     setActiveTimers({});
+    setRoshanKills(0);
+    setEnemyTimers([]);
+    stoppedPeriodicRef.current.clear();
+    resetWardStock();
     setIsPaused(false);
+    globalPausedAtRef.current = null;
+    pausedByDisconnectRef.current = false;
+  }, [resetWardStock]);
+
+  const resetAllTimers = useCallback(() => {
+    clearMatchState();
     toast({
       title: "All Timers Reset",
       description: "All active timers have been stopped",
       variant: "default"
     });
-  }, [toast]);
+  }, [toast, clearMatchState]);
+
+  // Only a pause caused by the disconnect is lifted on reconnect
+  const pausedByDisconnectRef = useRef(false);
+  const { reset: resetBuildings } = buildingTracker;
+
+  useMatchLifecycle(gameState, {
+    'new-match': () => {
+      clearMatchState();
+      resetBuildings();
+      logger.info('New match detected', { matchId: gameState?.matchid });
+      toast({
+        title: "New Match",
+        description: "Timers have been reset for the new match",
+        variant: "default"
+      });
+    },
+    horn: () => {
+      // Periodic timers stopped during pre-game start again with the match
+      stoppedPeriodicRef.current.clear();
+      toast({
+        title: "Match Started",
+        description: "Periodic timers are running on the game clock",
+        variant: "default"
+      });
+    },
+    disconnect: () => {
+      if (isPaused) return;
+      pausedByDisconnectRef.current = true;
+      setTimersPaused(true);
+      toast({
+        title: "Disconnected",
+        description: "Timers are paused until you reconnect",
+        variant: "warning"
+      });
+    },
+    reconnect: () => {
+      if (!pausedByDisconnectRef.current) return;
+      pausedByDisconnectRef.current = false;
+      setTimersPaused(false);
+      toast({
+        title: "Reconnected",
+        description: "Timers have been resumed",
+        variant: "default"
+      });
+    },
+    'post-game': () => {
+      if (!gameState) return;
+      const summary = createMatchSummary(gameState, roshanKills, Array.from(buildingTracker.structures.values()));
+      const towersTaken = summary.towersDestroyed[side === 'radiant' ? 'dire' : 'radiant'];
+      const towersLost = summary.towersDestroyed[side];
+      logger.info('Match summary', { ...summary });
+      toast({
+        title: summary.winner ? (summary.winner === side ? "Victory" : "Defeat") : "Match Over",
+        description: `${Math.floor(summary.duration / 60)}:${String(summary.duration % 60).padStart(2, '0')} · ` +
+          `Roshan kills: ${summary.roshanKills} · Towers taken: ${towersTaken}, lost: ${towersLost}`,
+        variant: "default"
+      });
+    }
+  });
 
   const syncWithGameTime = useCallback(() => {
     const gameTime = syncGameTime();
     if (gameTime !== null) {
-      setGameTimeOffset(Date.now() - (gameTime * 1000));
       toast({
         title: "GSI Sync Complete",
         description: `Synced with game time: ${Math.floor(gameTime / 60)}:${String(Math.floor(gameTime % 60)).padStart(2, '0')}`,
@@ -280,7 +931,15 @@ export const TimerManager = () => {
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyPress = (event: KeyboardEvent) => {
-      if (event.ctrlKey || event.metaKey) {
+      if ((event.ctrlKey || event.metaKey) && event.shiftKey) {
+        // Ctrl+Shift+key starts the custom timer bound to that key
+        const key = event.code.match(/^(?:Key|Digit)([A-Z0-9])$/)?.[1];
+        const definition = key ? customTimers.definitions.find(d => d.hotkey === key) : undefined;
+        if (definition) {
+          event.preventDefault();
+          startTimer(toCustomTimer(definition).id);
+        }
+      } else if (event.ctrlKey || event.metaKey) {
         switch (event.key.toLowerCase()) {
           case 'r':
             event.preventDefault();
@@ -302,17 +961,33 @@ export const TimerManager = () => {
             event.preventDefault();
             startTimer('neutral-pull');
             break;
+          case 'm':
+            event.preventDefault();
+            startTimer(`tormentor-${side}`);
+            break;
+          case 'o':
+            event.preventDefault();
+            startTimer(`tormentor-${side === 'radiant' ? 'dire' : 'radiant'}`);
+            break;
           case ' ':
             event.preventDefault();
             pauseAllTimers();
             break;
         }
+      } else if (event.altKey) {
+        // Alt+1-9 restarts the enemy cooldown in that position
+        const digit = event.code.match(/^Digit([1-9])$/);
+        const enemyTimer = digit ? enemyTimers[Number(digit[1]) - 1] : undefined;
+        if (enemyTimer) {
+          event.preventDefault();
+          startTimer(enemyTimer.id);
+        }
       }
     };
 
     window.addEventListener('keydown', handleKeyPress);
     return () => window.removeEventListener('keydown', handleKeyPress);
-  }, [startTimer, pauseAllTimers]);
+  }, [startTimer, pauseAllTimers, side, enemyTimers, customTimers.definitions]);
 
   // Show Electron status in the UI
   const isElectronApp = electronGSI.isElectron;
@@ -327,6 +1002,12 @@ export const TimerManager = () => {
             <Badge variant={testMode ? "destructive" : "secondary"}>
               {testMode ? "TEST MODE" : "LIVE"}
             </Badge>
+            {isGamePaused && (
+              <Badge variant="outline" className="border-accent text-accent">
+                <Pause className="h-3 w-3 mr-1" />
+                Game Paused
+              </Badge>
+            )}
             {isElectronApp && (
               <Badge variant="default" className="bg-green-500">
                 DESKTOP
@@ -369,6 +1050,14 @@ export const TimerManager = () => {
               <Settings className="h-4 w-4 mr-1" />
               Timings
             </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowCustomTimers(true)}
+            >
+              <ListPlus className="h-4 w-4 mr-1" />
+              Custom
+            </Button>
             <Button
               variant="outline"
               size="sm"
@@ -403,6 +1092,9 @@ export const TimerManager = () => {
         <div className="mt-3 p-2 bg-muted rounded text-sm">
           <div className="flex items-center justify-between">
             <span className="font-medium">GSI Status:</span>
+            <span className="ml-auto mr-2 text-xs text-muted-foreground">
+              {clockSource === 'game' ? 'Game clock' : 'Local clock'}
+            </span>
             <Badge variant={
               connectionStatus === 'connected' ? "default" : 
               connectionStatus === 'error' ? "destructive" : 
@@ -422,6 +1114,12 @@ export const TimerManager = () => {
               {gameState.paused && " PAUSED"}
             </div>
           )}
+          {authFailing && (
+            <div className="mt-2 p-2 bg-destructive/10 border border-destructive/20 rounded text-xs text-destructive">
+              The GSI server is rejecting updates from Dota 2: the cfg has no auth token or an old one.
+              Set it up again under Setup and restart Dota 2.
+            </div>
+          )}
           {error && connectionStatus === 'error' && (
             <div className="mt-2 p-2 bg-destructive/10 border border-destructive/20 rounded text-xs text-destructive">
               <div className="font-medium mb-1">Setup Required:</div>
@@ -439,7 +1137,11 @@ export const TimerManager = () => {
             <span>Ctrl+P: Power Rune</span>
             <span>Ctrl+L: Lotus</span>
             <span>Ctrl+N: Neutral Pull</span>
+            <span>Ctrl+M: Your Tormentor</span>
+            <span>Ctrl+O: Enemy Tormentor</span>
             <span>Ctrl+Space: Pause/Resume</span>
+            <span>Alt+1-9: Restart enemy cooldown</span>
+            <span>Ctrl+Shift+key: Custom timer</span>
           </div>
         </div>
       </Card>
@@ -451,7 +1153,23 @@ export const TimerManager = () => {
       <TimingConfiguration 
         open={showTimingConfig} 
         onOpenChange={setShowTimingConfig}
-        gameTime={gameState?.game_time || 0}
+        gameTime={gameState?.clock_time || 0}
+      />
+
+      {/* Custom Timer Editor */}
+      <CustomTimerEditor
+        open={showCustomTimers}
+        onOpenChange={setShowCustomTimers}
+        sounds={builtInSounds}
+        profileNames={customTimers.profileNames}
+        activeProfile={customTimers.activeProfile}
+        definitions={customTimers.definitions}
+        onSave={customTimers.saveTimer}
+        onDelete={customTimers.deleteTimer}
+        onMove={customTimers.moveTimer}
+        onSelectProfile={customTimers.selectProfile}
+        onCreateProfile={customTimers.createProfile}
+        onDeleteProfile={customTimers.deleteProfile}
       />
 
       {/* Audio Bank - Only visible in test mode */}
@@ -471,26 +1189,141 @@ export const TimerManager = () => {
             onLaneChange={setLane}
             onGameModeChange={setGameMode}
           />
+          <div className="mt-4">
+            <BuybackPanel status={buyback} />
+          </div>
+          <div className="mt-4">
+            <StackingAssistant
+              upcoming={stacking.upcoming}
+              hasGameClock={stacking.hasGameClock}
+              isMuted={stacking.isMuted}
+              enabled={stackingEnabled}
+              laningOnly={stackingLaningOnly}
+              onEnabledChange={setStackingEnabled}
+              onLaningOnlyChange={setStackingLaningOnly}
+            />
+          </div>
+          <div className="mt-4">
+            <BuildingTracker
+              structures={buildingTracker.structures}
+              recent={buildingTracker.recent}
+              ourTeam={side}
+              glyphTimer={GLYPH_TIMER}
+              glyphActive={!!activeTimers[GLYPH_TIMER.id]}
+              glyphPaused={activeTimers[GLYPH_TIMER.id]?.isPaused || timersFrozen}
+              glyphRemaining={activeTimers[GLYPH_TIMER.id]?.timeRemaining || GLYPH_TIMER.duration}
+              onGlyphStart={startTimer}
+              onGlyphStop={stopTimer}
+              onGlyphPause={pauseTimer}
+            />
+          </div>
         </div>
 
+        <div className="lg:col-span-3 space-y-4">
+        {/* Own cooldowns, shown once GSI reports a hero */}
+        {myCooldowns.heroName && (
+          <MyCooldowns
+            heroName={myCooldowns.heroName}
+            cooldowns={myCooldowns.cooldowns}
+            sources={myCooldowns.sources}
+            trackedNames={myCooldowns.trackedNames}
+            onTrackedChange={myCooldowns.setTracked}
+            onResetTracked={myCooldowns.resetTracked}
+          />
+        )}
+
+        {/* Enemy cooldowns tracked by hand */}
+        <Card className="p-4 magical-card mystical-border space-y-4">
+          <h3 className="font-semibold enchanted-text">Enemy Cooldowns</h3>
+          <EnemyCooldownPicker onStart={startEnemyCooldown} />
+          {enemyTimers.length > 0 && (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {enemyTimers.map((timer, index) => {
+                const activeTimer = activeTimers[timer.id];
+                return (
+                  <TimerCard
+                    key={timer.id}
+                    timer={index < 9 ? { ...timer, location: [timer.location, `Alt+${index + 1}`].filter(Boolean).join(' · ') } : timer}
+                    onStart={startTimer}
+                    onStop={stopTimer}
+                    onPause={pauseTimer}
+                    isActive={!!activeTimer}
+                    isPaused={activeTimer?.isPaused || timersFrozen}
+                    timeRemaining={activeTimer?.timeRemaining || timer.duration}
+                    className="animate-fade-in-up"
+                  />
+                );
+              })}
+            </div>
+          )}
+        </Card>
+
         {/* Timer Grid */}
-        <div className="lg:col-span-3 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        {DEFAULT_TIMERS.map(timer => {
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        <DayNightCard status={dayNight} className="animate-fade-in-up" />
+        {gridTimers.map(timer => {
+          const wardType = WARD_TIMERS[timer.id];
+          if (wardType) {
+            const stock = wardStocks[wardType];
+            return (
+              <TimerCard
+                key={timer.id}
+                timer={timer}
+                onStart={() => takeWard(wardType)}
+                onStop={() => resetWardStock(wardType)}
+                onPause={() => {}}
+                isActive={stock.restockRemaining !== null}
+                isPaused={false}
+                timeRemaining={stock.restockRemaining ?? timer.duration}
+                stock={stock}
+                className="animate-fade-in-up"
+              />
+            );
+          }
+
           const activeTimer = activeTimers[timer.id];
+          // Running timers show the current cycle, e.g. the first spawn or the upcoming rune
+          const cardTimer = activeTimer
+            ? { ...timer, name: activeTimer.label ?? timer.name, duration: activeTimer.duration ?? timer.duration }
+            : timer;
           return (
             <TimerCard
               key={timer.id}
-              timer={timer}
+              timer={cardTimer}
               onStart={startTimer}
               onStop={stopTimer}
               onPause={pauseTimer}
               isActive={!!activeTimer}
-              isPaused={activeTimer?.isPaused || isPaused}
+              isPaused={activeTimer?.isPaused || timersFrozen}
               timeRemaining={activeTimer?.timeRemaining || timer.duration}
               className="animate-fade-in-up"
-            />
+            >
+              {timer.id === 'roshan' && (
+                <RoshanKillChain
+                  kills={roshanKills}
+                  aegisRemaining={activeTimers['aegis']?.timeRemaining}
+                />
+              )}
+            </TimerCard>
           );
           })}
+        {customGridTimers.map(timer => {
+          const activeTimer = activeTimers[timer.id];
+          return (
+            <TimerCard
+              key={timer.id}
+              timer={timer}
+              onStart={startTimer}
+              onStop={stopTimer}
+              onPause={pauseTimer}
+              isActive={!!activeTimer}
+              isPaused={activeTimer?.isPaused || timersFrozen}
+              timeRemaining={activeTimer?.timeRemaining || timer.duration}
+              className={cn("animate-fade-in-up", customColors[timer.id])}
+            />
+          );
+        })}
+        </div>
         </div>
       </div>
     </div>
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
@@ -8,9 +8,11 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Clock, RotateCcw, Save, Trash2, Plus, Eye } from 'lucide-react';
-import { useTimingConfiguration, type TimingEvent } from '@/hooks/useTimingConfiguration';
+import { Clock, RotateCcw, Save, Trash2, Plus, Eye, Download, Upload } from 'lucide-react';
+import type { TimingEvent, TimingPreset } from '@/hooks/useTimingConfiguration';
+import { useTimingConfigurationContext } from '@/hooks/useTimingConfigurationContext';
 import { useToast } from '@/hooks/use-toast';
+import { getPresetFileName, parsePresetFile, PRESET_FILE_EXTENSION, serializePresets } from '@/utils/presetTransfer';
 
 interface TimingConfigurationProps {
   open: boolean;
@@ -21,27 +23,38 @@ interface TimingConfigurationProps {
 export const TimingConfiguration: React.FC<TimingConfigurationProps> = ({ 
   open, 
   onOpenChange, 
-  gameTime = 0 
+  gameTime = 0
 }) => {
   const { toast } = useToast();
   const {
     timingEvents,
+    patches,
+    patch,
+    setPatchId,
     presets,
     activePreset,
     customTimings,
+    customWarnings,
+    getConfiguredTime,
     getEffectiveTime,
     setCustomTiming,
     resetCustomTiming,
     resetAllCustomTimings,
+    getWarningTimes,
+    setWarningTimes,
+    resetWarningTimes,
     createCustomPreset,
+    importPresets,
     deletePreset,
     loadPreset,
     getUpcomingEvents
-  } = useTimingConfiguration();
+  } = useTimingConfigurationContext();
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   const [newPresetName, setNewPresetName] = useState('');
   const [newPresetDescription, setNewPresetDescription] = useState('');
   const [tempTimings, setTempTimings] = useState<Record<string, string>>({});
+  const [tempWarnings, setTempWarnings] = useState<Record<string, string>>({});
 
   const formatTime = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
@@ -60,6 +73,44 @@ export const TimingConfiguration: React.FC<TimingConfigurationProps> = ({
     setTempTimings(prev => ({ ...prev, [eventId]: value }));
   };
 
+  const formatWarnings = (times: number[]): string => times.join(', ');
+
+  // Parses a comma-separated list of lead times; null when any entry isn't a positive number
+  const parseWarnings = (value: string): number[] | null => {
+    const parts = value.split(',').map(part => part.trim()).filter(part => part.length > 0);
+    const times = parts.map(part => Number(part));
+    return times.every(time => Number.isFinite(time) && time > 0) ? times : null;
+  };
+
+  const applyWarnings = (eventId: string) => {
+    const value = tempWarnings[eventId];
+    if (value === undefined) return;
+
+    const times = parseWarnings(value);
+    if (!times) {
+      toast({
+        title: "Invalid Warnings",
+        description: "Enter lead times in seconds separated by commas, e.g. 30, 10",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setWarningTimes(eventId, times);
+    setTempWarnings(prev => {
+      const updated = { ...prev };
+      delete updated[eventId];
+      return updated;
+    });
+    toast({
+      title: "Warnings Updated",
+      description: times.length > 0
+        ? `${timingEvents.find(e => e.id === eventId)?.name} warns ${formatWarnings(times)} seconds ahead`
+        : `${timingEvents.find(e => e.id === eventId)?.name} warnings turned off`,
+      variant: "default"
+    });
+  };
+
   const applyTiming = (eventId: string) => {
     const value = tempTimings[eventId];
     if (value) {
@@ -93,6 +144,51 @@ export const TimingConfiguration: React.FC<TimingConfigurationProps> = ({
     }
   };
 
+  const handleExportPresets = (toExport: TimingPreset[]) => {
+    if (toExport.length === 0) return;
+
+    const blob = new Blob([serializePresets(toExport)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getPresetFileName(toExport);
+    link.click();
+    URL.revokeObjectURL(url);
+
+    toast({
+      title: "Presets Exported",
+      description: `${toExport.length} preset${toExport.length === 1 ? '' : 's'} saved to ${link.download}`,
+      variant: "default"
+    });
+  };
+
+  const handleImportPresets = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow re-importing the same file
+    if (!file) return;
+
+    const { presets: imported, errors } = parsePresetFile(await file.text(), {
+      eventIds: timingEvents.map(e => e.id),
+      existingIds: presets.map(p => p.id)
+    });
+
+    if (errors.length > 0) {
+      toast({
+        title: "Import Failed",
+        description: errors.slice(0, 3).join('\n') + (errors.length > 3 ? `\n…and ${errors.length - 3} more` : ''),
+        variant: "destructive"
+      });
+      return;
+    }
+
+    importPresets(imported);
+    toast({
+      title: "Presets Imported",
+      description: `Imported ${imported.map(p => `"${p.name}"`).join(', ')}`,
+      variant: "default"
+    });
+  };
+
   const upcomingEvents = getUpcomingEvents(gameTime);
 
   return (
@@ -105,10 +201,28 @@ export const TimingConfiguration: React.FC<TimingConfigurationProps> = ({
           </DialogDescription>
         </DialogHeader>
 
+        <div className="flex items-center gap-3">
+          <Label htmlFor="timing-patch" className="text-sm">Patch:</Label>
+          <Select value={patch.id} onValueChange={setPatchId}>
+            <SelectTrigger id="timing-patch" className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {patches.map(p => (
+                <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-xs text-muted-foreground">
+            Default times and available events follow the selected patch
+          </span>
+        </div>
+
         <Tabs defaultValue="timings" className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="timings">Event Timings</TabsTrigger>
             <TabsTrigger value="presets">Presets</TabsTrigger>
+            <TabsTrigger value="upcoming">Upcoming</TabsTrigger>
           </TabsList>
 
           <TabsContent value="timings" className="space-y-4">
@@ -116,11 +230,18 @@ export const TimingConfiguration: React.FC<TimingConfigurationProps> = ({
               <div>
                 <h3 className="text-lg font-semibold">Event Timings</h3>
                 <p className="text-sm text-muted-foreground">
-                  Customize individual event timings. Changes override preset settings.
+                  Customize individual event timings and how far ahead to warn. Changes override preset settings.
                 </p>
               </div>
               <div className="flex gap-2">
-                <Button variant="outline" size="sm" onClick={resetAllCustomTimings}>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    resetAllCustomTimings();
+                    setTempWarnings({});
+                  }}
+                >
                   <RotateCcw className="h-4 w-4 mr-1" />
                   Reset All
                 </Button>
@@ -129,9 +250,14 @@ export const TimingConfiguration: React.FC<TimingConfigurationProps> = ({
 
             <div className="grid gap-4">
               {timingEvents.map(event => {
+                const configuredTime = getConfiguredTime(event.id);
                 const effectiveTime = getEffectiveTime(event.id);
-                const hasCustomTiming = customTimings[event.id] !== undefined;
+                const hasCustomTiming = customTimings[event.id] !== undefined || customWarnings[event.id] !== undefined;
                 const tempValue = tempTimings[event.id];
+                const warningsValue = formatWarnings(getWarningTimes(event.id));
+                const tempWarningsValue = tempWarnings[event.id];
+                const hasTimingChange = !!tempValue && tempValue !== configuredTime.toString();
+                const hasWarningsChange = tempWarningsValue !== undefined && tempWarningsValue !== warningsValue;
 
                 return (
                   <Card key={event.id} className="p-4">
@@ -146,31 +272,49 @@ export const TimingConfiguration: React.FC<TimingConfigurationProps> = ({
                         <p className="text-sm text-muted-foreground">{event.description}</p>
                         <p className="text-xs text-muted-foreground mt-1">
                           Category: {event.category} | Default: {formatTime(event.defaultTime)}
+                          {effectiveTime !== configuredTime && ` | Turbo: ${formatTime(effectiveTime)}`}
                         </p>
                       </div>
 
-                      <div className="flex items-center gap-2">
-                        <Label htmlFor={`timing-${event.id}`} className="text-sm">
-                          Time (seconds):
-                        </Label>
-                        <Input
-                          id={`timing-${event.id}`}
-                          type="number"
-                          min="1"
-                          value={tempValue ?? effectiveTime}
-                          onChange={(e) => handleTimingChange(event.id, e.target.value)}
-                          className="w-20"
-                        />
-                        <span className="text-sm text-muted-foreground">
-                          ({formatTime(parseInt(tempValue || effectiveTime.toString()))})
-                        </span>
+                      <div className="space-y-2">
+                        <div className="flex items-center gap-2">
+                          <Label htmlFor={`timing-${event.id}`} className="text-sm">
+                            Time (seconds):
+                          </Label>
+                          <Input
+                            id={`timing-${event.id}`}
+                            type="number"
+                            min="1"
+                            value={tempValue ?? configuredTime}
+                            onChange={(e) => handleTimingChange(event.id, e.target.value)}
+                            className="w-20"
+                          />
+                          <span className="text-sm text-muted-foreground">
+                            ({formatTime(parseInt(tempValue || configuredTime.toString()))})
+                          </span>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <Label htmlFor={`warnings-${event.id}`} className="text-sm">
+                            Warn at (s before):
+                          </Label>
+                          <Input
+                            id={`warnings-${event.id}`}
+                            value={tempWarningsValue ?? warningsValue}
+                            onChange={(e) => setTempWarnings(prev => ({ ...prev, [event.id]: e.target.value }))}
+                            placeholder="None"
+                            className="w-24"
+                          />
+                        </div>
                       </div>
 
                       <div className="flex gap-2">
                         <Button
                           size="sm"
-                          onClick={() => applyTiming(event.id)}
-                          disabled={!tempValue || tempValue === effectiveTime.toString()}
+                          onClick={() => {
+                            if (hasTimingChange) applyTiming(event.id);
+                            if (hasWarningsChange) applyWarnings(event.id);
+                          }}
+                          disabled={!hasTimingChange && !hasWarningsChange}
                         >
                           <Save className="h-4 w-4 mr-1" />
                           Apply
@@ -181,9 +325,13 @@ export const TimingConfiguration: React.FC<TimingConfigurationProps> = ({
                             size="sm"
                             onClick={() => {
                               resetCustomTiming(event.id);
+                              resetWarningTimes(event.id);
                               const updated = { ...tempTimings };
                               delete updated[event.id];
                               setTempTimings(updated);
+                              const updatedWarnings = { ...tempWarnings };
+                              delete updatedWarnings[event.id];
+                              setTempWarnings(updatedWarnings);
                             }}
                           >
                             <RotateCcw className="h-4 w-4 mr-1" />
@@ -240,6 +388,34 @@ export const TimingConfiguration: React.FC<TimingConfigurationProps> = ({
                 </Button>
               </Card>
 
+              <Card className="p-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h4 className="font-medium">Share Presets</h4>
+                    <p className="text-sm text-muted-foreground">
+                      Exchange presets as {PRESET_FILE_EXTENSION} files
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => importInputRef.current?.click()}>
+                      <Upload className="h-4 w-4 mr-1" />
+                      Import
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleExportPresets(presets)}>
+                      <Download className="h-4 w-4 mr-1" />
+                      Export All
+                    </Button>
+                  </div>
+                </div>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  onChange={handleImportPresets}
+                  className="hidden"
+                />
+              </Card>
+
               {presets.map(preset => (
                 <Card key={preset.id} className="p-4">
                   <div className="flex items-center justify-between">
@@ -268,6 +444,13 @@ export const TimingConfiguration: React.FC<TimingConfigurationProps> = ({
                       >
                         Load
                       </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleExportPresets([preset])}
+                      >
+                        <Download className="h-4 w-4" />
+                      </Button>
                       {!preset.isDefault && (
                         <Button
                           variant="destructive"
@@ -292,6 +475,33 @@ export const TimingConfiguration: React.FC<TimingConfigurationProps> = ({
             </div>
           </TabsContent>
 
+          <TabsContent value="upcoming" className="space-y-4">
+            <div>
+              <h3 className="text-lg font-semibold">Upcoming Events</h3>
+              <p className="text-sm text-muted-foreground">
+                Next occurrences using the active preset{activePreset ? ` (${activePreset.name})` : ''}.
+              </p>
+            </div>
+
+            <div className="grid gap-2">
+              {upcomingEvents.map(event => (
+                <Card key={event.id} className="p-3">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <Clock className="h-4 w-4 text-muted-foreground" />
+                      <span className="font-medium">{event.name}</span>
+                      <Badge variant="secondary">{event.category}</Badge>
+                    </div>
+                    <div className="text-right text-sm">
+                      <div className="font-mono">in {formatTime(event.timeUntilNext)}</div>
+                      <div className="text-xs text-muted-foreground">at {formatGameTime(event.nextEventTime)}</div>
+                    </div>
+                  </div>
+                </Card>
+              ))}
+            </div>
+          </TabsContent>
+
         </Tabs>
 
         <div className="flex justify-end pt-4 border-t">
@@ -0,0 +1,17 @@
+import React from 'react';
+import { useTimingConfiguration } from '@/hooks/useTimingConfiguration';
+import { TimingConfigurationContext } from '@/hooks/useTimingConfigurationContext';
+
+interface TimingConfigurationProviderProps {
+  children: React.ReactNode;
+}
+
+export const TimingConfigurationProvider: React.FC<TimingConfigurationProviderProps> = ({ children }) => {
+  const timingConfiguration = useTimingConfiguration();
+
+  return (
+    <TimingConfigurationContext.Provider value={timingConfiguration}>
+      {children}
+    </TimingConfigurationContext.Provider>
+  );
+};
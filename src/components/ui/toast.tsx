@@ -30,6 +30,8 @@ const toastVariants = cva(
         default: "border bg-background text-foreground",
         destructive:
           "destructive group border-destructive bg-destructive text-destructive-foreground",
+        warning: "border-accent/50 bg-background text-foreground",
+        urgent: "border-accent bg-accent text-accent-foreground",
       },
     },
     defaultVariants: {
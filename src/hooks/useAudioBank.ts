@@ -1,6 +1,6 @@
 import { useState, useCallback, useEffect } from 'react';
 
-export type NotificationEvent = 'roshan-spawn' | 'roshan-death' | 'rune-spawn' | 'lotus-bloom' | 'neutral-ready' | 'wisdom-available' | 'timer-alert';
+export type NotificationEvent = 'roshan-spawn' | 'roshan-death' | 'rune-spawn' | 'lotus-bloom' | 'neutral-ready' | 'wisdom-available' | 'tormentor-spawn' | 'ward-available' | 'buyback-ready' | 'cooldown-ready' | 'tower-destroyed' | 'night-fall' | 'timer-warning' | 'timer-warning-final' | 'timer-alert';
 
 export interface AudioFile {
   id: string;
@@ -49,6 +49,62 @@ const BUILT_IN_SOUNDS: AudioFile[] = [
     description: 'Neutral creeps are ready to pull',
     isBuiltIn: true
   },
+  {
+    id: 'tormentor-spawn',
+    name: 'Tormentor Spawn',
+    category: 'general',
+    description: 'Metallic hum as the Tormentor appears',
+    isBuiltIn: true
+  },
+  {
+    id: 'ward-available',
+    name: 'Ward Available',
+    category: 'general',
+    description: 'Short ping when the shop restocks a ward',
+    isBuiltIn: true
+  },
+  {
+    id: 'buyback-ready',
+    name: 'Buyback Ready',
+    category: 'general',
+    description: 'Coin chime when buyback comes off cooldown',
+    isBuiltIn: true
+  },
+  {
+    id: 'cooldown-ready',
+    name: 'Cooldown Ready',
+    category: 'general',
+    description: 'Quick chirp when a tracked ability or item is ready',
+    isBuiltIn: true
+  },
+  {
+    id: 'tower-destroyed',
+    name: 'Tower Destroyed',
+    category: 'general',
+    description: 'Low falling thud when a tower falls',
+    isBuiltIn: true
+  },
+  {
+    id: 'night-fall',
+    name: 'Night Falls',
+    category: 'general',
+    description: 'Slow descending tone as night begins',
+    isBuiltIn: true
+  },
+  {
+    id: 'timer-warning',
+    name: 'Timer Warning',
+    category: 'general',
+    description: 'Soft chime ahead of an upcoming event',
+    isBuiltIn: true
+  },
+  {
+    id: 'timer-warning-final',
+    name: 'Final Warning',
+    category: 'general',
+    description: 'Urgent double beep just before an event',
+    isBuiltIn: true
+  },
   {
     id: 'timer-alert',
     name: 'General Alert',
@@ -124,6 +180,38 @@ export const useAudioBank = () => {
         // Simple notification
         await playComplexTone(audioContext, [600, 700], 0.5, 'sine');
         break;
+      case 'tormentor-spawn':
+        // Rising metallic hum
+        await playComplexTone(audioContext, [300, 450, 675], 1.0, 'square');
+        break;
+      case 'ward-available':
+        // Bright double ping
+        await playComplexTone(audioContext, [1000, 1300], 0.4, 'triangle');
+        break;
+      case 'buyback-ready':
+        // Rising coin chime
+        await playComplexTone(audioContext, [1200, 1600, 2000], 0.6, 'triangle');
+        break;
+      case 'cooldown-ready':
+        // Short upward chirp
+        await playComplexTone(audioContext, [700, 1050], 0.3, 'sine');
+        break;
+      case 'tower-destroyed':
+        // Low falling thud
+        await playComplexTone(audioContext, [300, 200, 120], 0.6, 'square');
+        break;
+      case 'night-fall':
+        // Slow descending tone
+        await playComplexTone(audioContext, [660, 440, 330], 0.9, 'sine');
+        break;
+      case 'timer-warning':
+        // Gentle heads-up
+        await playComplexTone(audioContext, [500, 650], 0.4, 'sine');
+        break;
+      case 'timer-warning-final':
+        // Sharp repeated beep
+        await playComplexTone(audioContext, [900, 700, 900], 0.5, 'square');
+        break;
       default:
         // Default alert sound
         await playComplexTone(audioContext, [800], 0.8, 'sine');
@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { GSIBuilding, GSITeam } from '@/types/gsi';
+import { updateBuildings, type BuildingStatus } from '@/utils/buildings';
+
+interface UseBuildingTrackerOptions {
+  buildings?: GSIBuilding[]; // GSI buildings, only the teams the game reports
+  glyphCooldown?: Partial<Record<GSITeam, number>>; // Reported glyph cooldowns, where present
+  gameTime: () => number | null; // Game clock seconds (see useGameClock)
+  onDestroyed: (building: BuildingStatus) => void;
+  onGlyphCooldown: (team: GSITeam, cooldown: number) => void; // Glyph used, or ready again early
+}
+
+const RECENT_LIMIT = 5;
+
+/**
+ * Follows tower, barracks and ancient health from GSI, calling onDestroyed as
+ * structures fall. Where the game reports glyph cooldowns, a jump up means the
+ * glyph was used and a drop to 0 means it was refreshed.
+ */
+export const useBuildingTracker = ({ buildings, glyphCooldown, gameTime, onDestroyed, onGlyphCooldown }: UseBuildingTrackerOptions) => {
+  const [structures, setStructures] = useState<Map<string, BuildingStatus>>(new Map());
+  const [recent, setRecent] = useState<BuildingStatus[]>([]);
+  const structuresRef = useRef(structures);
+  const glyphRef = useRef<Partial<Record<GSITeam, number>>>({});
+  const onDestroyedRef = useRef(onDestroyed);
+  const onGlyphCooldownRef = useRef(onGlyphCooldown);
+
+  structuresRef.current = structures;
+  onDestroyedRef.current = onDestroyed;
+  onGlyphCooldownRef.current = onGlyphCooldown;
+
+  useEffect(() => {
+    if (!buildings) return;
+
+    const { structures: updated, destroyed } = updateBuildings(structuresRef.current, buildings, gameTime());
+    structuresRef.current = updated;
+    setStructures(updated);
+
+    if (destroyed.length > 0) {
+      setRecent(prev => [...destroyed.reverse(), ...prev].slice(0, RECENT_LIMIT));
+      destroyed.forEach(building => onDestroyedRef.current(building));
+    }
+  }, [buildings, gameTime]);
+
+  useEffect(() => {
+    if (!glyphCooldown) return;
+
+    (['radiant', 'dire'] as const).forEach(team => {
+      const cooldown = glyphCooldown[team];
+      const previous = glyphRef.current[team];
+      glyphRef.current[team] = cooldown;
+      if (cooldown === undefined) return;
+
+      // Counting down by a second or two between updates is normal
+      const wasUsed = cooldown > (previous ?? 0) + 1;
+      const wasRefreshed = cooldown === 0 && (previous ?? 0) > 1;
+      if (wasUsed || wasRefreshed) {
+        onGlyphCooldownRef.current(team, Math.ceil(cooldown));
+      }
+    });
+  }, [glyphCooldown]);
+
+  // Forgets everything seen so far, e.g. when a new match starts
+  const reset = useCallback(() => {
+    structuresRef.current = new Map();
+    glyphRef.current = {};
+    setStructures(structuresRef.current);
+    setRecent([]);
+  }, []);
+
+  return {
+    structures,
+    recent,
+    reset
+  };
+};
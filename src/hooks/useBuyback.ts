@@ -0,0 +1,49 @@
+import { useEffect, useMemo, useRef } from 'react';
+import type { GameState } from '@/types/gsi';
+
+export interface BuybackStatus {
+  cooldown: number; // Seconds until buyback can be used again
+  cost: number;
+  gold: number;
+  canAfford: boolean;
+  isReady: boolean; // Off cooldown and affordable
+}
+
+/**
+ * Derives the local hero's buyback status from GSI hero and player data and
+ * calls onReady when buyback comes off cooldown.
+ */
+export const useBuyback = (gameState: GameState | null, onReady: (status: BuybackStatus) => void) => {
+  const onReadyRef = useRef(onReady);
+  const previousCooldownRef = useRef<number | null>(null);
+
+  onReadyRef.current = onReady;
+
+  const hero = gameState?.hero;
+  const player = gameState?.player;
+
+  const status = useMemo((): BuybackStatus | null => {
+    if (!hero || !player) return null;
+
+    const cooldown = Math.ceil(hero.buyback_cooldown);
+    const canAfford = player.gold >= hero.buyback_cost;
+    return {
+      cooldown,
+      cost: hero.buyback_cost,
+      gold: player.gold,
+      canAfford,
+      isReady: cooldown === 0 && canAfford
+    };
+  }, [hero, player]);
+
+  useEffect(() => {
+    const previous = previousCooldownRef.current;
+    previousCooldownRef.current = status?.cooldown ?? null;
+
+    if (status && previous !== null && previous > 0 && status.cooldown === 0) {
+      onReadyRef.current(status);
+    }
+  }, [status]);
+
+  return status;
+};
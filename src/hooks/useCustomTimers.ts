@@ -0,0 +1,105 @@
+import { useCallback, useEffect, useState } from 'react';
+import { createTrackedTimeout, clearTrackedTimeout } from '@/utils/timeout';
+import {
+  createDefaultProfiles,
+  loadCustomTimers,
+  saveCustomTimers,
+  type CustomTimerDefinition,
+  type CustomTimerProfiles
+} from '@/utils/customTimers';
+
+const SAVE_DELAY = 500;
+
+/**
+ * User-defined timers grouped into profiles. Only the active profile's timers
+ * are shown; every profile is persisted.
+ */
+export const useCustomTimers = () => {
+  const [state, setState] = useState<CustomTimerProfiles>(createDefaultProfiles);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadCustomTimers().then(stored => {
+      if (cancelled) return;
+      if (stored) setState(stored);
+      setIsLoaded(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    const timeoutId = createTrackedTimeout(() => saveCustomTimers(state), SAVE_DELAY);
+    return () => clearTrackedTimeout(timeoutId);
+  }, [isLoaded, state]);
+
+  const updateActive = useCallback((update: (timers: CustomTimerDefinition[]) => CustomTimerDefinition[]) => {
+    setState(prev => ({
+      ...prev,
+      profiles: { ...prev.profiles, [prev.activeProfile]: update(prev.profiles[prev.activeProfile] ?? []) }
+    }));
+  }, []);
+
+  // Adds the timer, or replaces the one with the same id
+  const saveTimer = useCallback((definition: CustomTimerDefinition) => {
+    updateActive(timers => timers.some(t => t.id === definition.id)
+      ? timers.map(t => t.id === definition.id ? definition : t)
+      : [...timers, definition]);
+  }, [updateActive]);
+
+  const deleteTimer = useCallback((id: string) => {
+    updateActive(timers => timers.filter(t => t.id !== id));
+  }, [updateActive]);
+
+  const moveTimer = useCallback((id: string, offset: -1 | 1) => {
+    updateActive(timers => {
+      const index = timers.findIndex(t => t.id === id);
+      const target = index + offset;
+      if (index === -1 || target < 0 || target >= timers.length) return timers;
+
+      const reordered = [...timers];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      return reordered;
+    });
+  }, [updateActive]);
+
+  const selectProfile = useCallback((name: string) => {
+    setState(prev => prev.profiles[name] ? { ...prev, activeProfile: name } : prev);
+  }, []);
+
+  // Creates an empty profile and switches to it; false when the name is taken
+  const createProfile = useCallback((name: string): boolean => {
+    const trimmed = name.trim();
+    if (!trimmed || state.profiles[trimmed]) return false;
+
+    setState(prev => ({ activeProfile: trimmed, profiles: { ...prev.profiles, [trimmed]: [] } }));
+    return true;
+  }, [state.profiles]);
+
+  // Deletes the active profile; the last one left can't be deleted
+  const deleteProfile = useCallback(() => {
+    setState(prev => {
+      const remaining = Object.keys(prev.profiles).filter(name => name !== prev.activeProfile);
+      if (remaining.length === 0) return prev;
+
+      const profiles = { ...prev.profiles };
+      delete profiles[prev.activeProfile];
+      return { activeProfile: remaining[0], profiles };
+    });
+  }, []);
+
+  return {
+    profileNames: Object.keys(state.profiles),
+    activeProfile: state.activeProfile,
+    definitions: state.profiles[state.activeProfile] ?? [],
+    saveTimer,
+    deleteTimer,
+    moveTimer,
+    selectProfile,
+    createProfile,
+    deleteProfile
+  };
+};
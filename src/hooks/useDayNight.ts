@@ -0,0 +1,79 @@
+import { useEffect, useRef, useState } from 'react';
+import { createTrackedInterval, clearTrackedInterval } from '@/utils/timeout';
+import {
+  detectDayNightOverride,
+  getDayNightPhase,
+  NIGHT_WARNING_LEAD,
+  type DayNightOverride,
+  type DayNightPhase
+} from '@/utils/dayNight';
+
+export interface DayNightStatus extends DayNightPhase {
+  override: DayNightOverride | null;
+}
+
+interface UseDayNightOptions {
+  gameTime: () => number | null; // Current game clock time, null without GSI
+  flagsClockTime?: number; // GSI map.clock_time of the update the flags below came from
+  daytime?: boolean; // GSI map.daytime, where reported
+  nightstalkerNight?: boolean; // GSI map.nightstalker_night, where reported
+  onNightWarning: (secondsUntil: number) => void;
+  onPhaseChange: (isDay: boolean) => void;
+  onOverride: (override: DayNightOverride) => void;
+}
+
+/**
+ * Follows the day/night cycle on the game clock, warning shortly before night
+ * falls and reporting abilities that hold the map out of its natural phase.
+ */
+export const useDayNight = ({ gameTime, flagsClockTime, daytime, nightstalkerNight, onNightWarning, onPhaseChange, onOverride }: UseDayNightOptions) => {
+  const [status, setStatus] = useState<DayNightStatus | null>(null);
+  const previousRef = useRef<DayNightStatus | null>(null);
+  const handlersRef = useRef({ onNightWarning, onPhaseChange, onOverride });
+  const flagsRef = useRef({ flagsClockTime, daytime, nightstalkerNight });
+
+  handlersRef.current = { onNightWarning, onPhaseChange, onOverride };
+  flagsRef.current = { flagsClockTime, daytime, nightstalkerNight };
+
+  useEffect(() => {
+    const update = () => {
+      const now = gameTime();
+      if (now === null) {
+        previousRef.current = null;
+        setStatus(null);
+        return;
+      }
+
+      const flags = flagsRef.current;
+      const override = flags.flagsClockTime === undefined
+        ? null
+        : detectDayNightOverride(flags.flagsClockTime, flags.daytime, flags.nightstalkerNight);
+      const next: DayNightStatus = { ...getDayNightPhase(now), override };
+      const previous = previousRef.current;
+      previousRef.current = next;
+      setStatus(current => current
+        && current.isDay === next.isDay
+        && current.remaining === next.remaining
+        && current.override === next.override ? current : next);
+
+      // Nothing to announce on the first reading or after the clock jumps
+      if (!previous || (Math.abs(previous.remaining - next.remaining) > 2 && previous.isDay === next.isDay)) return;
+
+      if (next.isDay && previous.remaining > NIGHT_WARNING_LEAD && next.remaining <= NIGHT_WARNING_LEAD) {
+        handlersRef.current.onNightWarning(next.remaining);
+      }
+      if (previous.isDay !== next.isDay) {
+        handlersRef.current.onPhaseChange(next.isDay);
+      }
+      if (next.override && next.override !== previous.override) {
+        handlersRef.current.onOverride(next.override);
+      }
+    };
+
+    update();
+    const interval = createTrackedInterval(update, 1000);
+    return () => clearTrackedInterval(interval);
+  }, [gameTime]);
+
+  return status;
+};
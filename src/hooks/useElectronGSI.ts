@@ -1,21 +1,29 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import type { GameState, GSIConnectionStatus, RawGSIData } from '@/types/gsi';
 import { validateAndSanitizeGSIData } from '@/utils/validation';
+import { buildGameState } from '@/utils/gsiGameState';
 import { retryWithBackoff } from '@/utils/retry';
 import { logger } from '@/utils/logger';
 import { healthMonitor } from '@/utils/healthMonitor';
+import { createTrackedInterval, clearTrackedInterval } from '@/utils/timeout';
+
+// How often to ask the GSI server whether it is rejecting Dota's updates
+const AUTH_CHECK_INTERVAL = 5000;
 
 declare global {
   interface Window {
     electronAPI?: {
-      getGSIStatus: () => Promise<{ isRunning: boolean; port: number }>;
+      getGSIStatus: () => Promise<{ isRunning: boolean; port: number; rejectedUpdates?: number; authFailing?: boolean }>;
       restartGSIServer: () => Promise<{ success: boolean; error?: string }>;
+      getGSIAuthToken?: () => Promise<string | null>;
       onGameStateUpdate: (callback: (data: RawGSIData) => void) => () => void;
       checkForUpdates?: () => Promise<{ success: boolean; message?: string; error?: string }>;
       downloadUpdate?: () => Promise<{ success: boolean; error?: string }>;
       installUpdate?: () => Promise<{ success: boolean; error?: string }>;
       onUpdateStatus?: (callback: (data: unknown) => void) => () => void;
       onUpdateProgress?: (callback: (data: unknown) => void) => () => void;
+      readSettings?: (key: string) => Promise<{ success: boolean; data?: unknown; error?: string }>;
+      writeSettings?: (key: string, data: unknown) => Promise<{ success: boolean; error?: string }>;
     };
   }
 }
@@ -24,6 +32,7 @@ export const useElectronGSI = () => {
   const [gameState, setGameState] = useState<GameState | null>(null);
   const [connectionStatus, setConnectionStatus] = useState<GSIConnectionStatus>('disconnected');
   const [error, setError] = useState<string | null>(null);
+  const [authFailing, setAuthFailing] = useState(false);
   const [isElectron] = useState(() => typeof window !== 'undefined' && !!window.electronAPI);
 
   const cleanupRef = useRef<(() => void) | null>(null);
@@ -41,19 +50,7 @@ export const useElectronGSI = () => {
         return;
       }
 
-      // Extract relevant game state information with proper type handling
-      const rawState = sanitized.map?.game_state || sanitized.game_state;
-      const gameStateValue = (rawState && typeof rawState === 'string') 
-        ? rawState as GameState['game_state']
-        : 'DOTA_GAMERULES_STATE_INIT';
-
-      const newGameState: GameState = {
-        clock_time: sanitized.map?.clock_time ?? sanitized.clock_time ?? 0,
-        game_time: sanitized.map?.game_time ?? sanitized.game_time ?? sanitized.map?.clock_time ?? sanitized.clock_time ?? 0,
-        paused: sanitized.map?.paused ?? sanitized.paused ?? false,
-        game_state: gameStateValue,
-        winner: sanitized.map?.winner ?? sanitized.winner ?? 0
-      };
+      const newGameState = buildGameState(sanitized);
       
       setGameState(newGameState);
       setConnectionStatus('connected');
@@ -91,6 +88,7 @@ export const useElectronGSI = () => {
       }
 
       const status = statusResult.data;
+      setAuthFailing(!!status.authFailing);
 
       if (status.isRunning) {
         setConnectionStatus('connected');
@@ -203,6 +201,24 @@ export const useElectronGSI = () => {
     };
   }, [isElectron, connectionStatus, processGameState]);
 
+  // Updates with a missing or wrong auth token never reach the app, so ask the server about them
+  useEffect(() => {
+    if (!isElectron || connectionStatus === 'disconnected') {
+      setAuthFailing(false);
+      return;
+    }
+
+    const interval = createTrackedInterval(async () => {
+      try {
+        const status = await window.electronAPI!.getGSIStatus();
+        setAuthFailing(!!status.authFailing);
+      } catch (err) {
+        logger.warn('GSI status check failed', { error: err instanceof Error ? err.message : String(err) });
+      }
+    }, AUTH_CHECK_INTERVAL);
+    return () => clearTrackedInterval(interval);
+  }, [isElectron, connectionStatus]);
+
   // Auto-connect on startup if in Electron
   useEffect(() => {
     if (isElectron && connectionStatus === 'disconnected') {
@@ -215,6 +231,7 @@ export const useElectronGSI = () => {
     connectionStatus,
     isConnected: connectionStatus === 'connected',
     error,
+    authFailing,
     connect,
     disconnect,
     syncGameTime,
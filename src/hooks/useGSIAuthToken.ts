@@ -0,0 +1,28 @@
+import { useCallback, useEffect, useState } from 'react';
+import { logger } from '@/utils/logger';
+
+/**
+ * The install's GSI auth token, for filling in the Dota cfg. Only the desktop
+ * app can read it (over IPC); the GSI server never serves it, so the web build
+ * gets null and users copy the token from the `npm run gsi-server` output.
+ */
+export const useGSIAuthToken = (enabled: boolean) => {
+  const [token, setToken] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!window.electronAPI?.getGSIAuthToken) return;
+    try {
+      setToken(await window.electronAPI.getGSIAuthToken());
+    } catch (error) {
+      logger.warn('GSI auth token unavailable', { error });
+    }
+  }, []);
+
+  useEffect(() => {
+    if (enabled && !token) {
+      refresh();
+    }
+  }, [enabled, token, refresh]);
+
+  return { token, refresh };
+};
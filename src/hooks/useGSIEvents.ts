@@ -0,0 +1,37 @@
+import { useEffect, useRef } from 'react';
+import type { GameState, GSIEvent, GSIEventType } from '@/types/gsi';
+
+export type GSIEventHandlers = Partial<Record<GSIEventType, (event: GSIEvent) => void>>;
+
+const MAX_SEEN_EVENTS = 200;
+
+const eventKey = (event: GSIEvent) =>
+  `${event.event_type}:${event.game_time}:${event.player_id ?? event.killer_player_id ?? ''}`;
+
+/**
+ * Dispatches each GSI event exactly once. Dota resends the recent event list on
+ * every update, so events are de-duplicated by type, game time and player.
+ */
+export const useGSIEvents = (gameState: GameState | null, handlers: GSIEventHandlers) => {
+  const handlersRef = useRef(handlers);
+  const seenRef = useRef<Set<string>>(new Set());
+
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!gameState?.events?.length) return;
+
+    for (const event of gameState.events) {
+      const key = eventKey(event);
+      if (seenRef.current.has(key)) continue;
+
+      seenRef.current.add(key);
+      if (seenRef.current.size > MAX_SEEN_EVENTS) {
+        const oldest = seenRef.current.values().next().value;
+        seenRef.current.delete(oldest);
+      }
+
+      handlersRef.current[event.event_type]?.(event);
+    }
+  }, [gameState]);
+};
@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useRef } from 'react';
+import type { GameState } from '@/types/gsi';
+
+export type ClockSource = 'game' | 'wall';
+
+interface ClockAnchor {
+  value: number; // Timeline seconds at the moment of anchoring
+  at: number; // Date.now() when the anchor was taken
+  running: boolean;
+}
+
+const readAnchor = (anchor: ClockAnchor): number =>
+  anchor.value + (anchor.running ? (Date.now() - anchor.at) / 1000 : 0);
+
+/**
+ * Timeline used by all timers, in seconds.
+ *
+ * While GSI is connected the timeline is anchored to the in-game clock on every
+ * update, so it freezes during in-game pauses and is unaffected by background
+ * throttling of the renderer. When GSI is disconnected it keeps advancing with
+ * the wall clock from wherever the game clock left off.
+ */
+export const useGameClock = (gameState: GameState | null, isConnected: boolean) => {
+  const anchorRef = useRef<ClockAnchor>({ value: Date.now() / 1000, at: Date.now(), running: true });
+  // Difference between the timeline and the game clock, fixed on first contact
+  // so that reconnecting snaps every timer back onto the real game clock
+  const offsetRef = useRef<number | null>(null);
+
+  const source: ClockSource = isConnected && gameState ? 'game' : 'wall';
+
+  useEffect(() => {
+    if (source === 'game' && gameState) {
+      if (offsetRef.current === null) {
+        offsetRef.current = readAnchor(anchorRef.current) - gameState.clock_time;
+      }
+      anchorRef.current = {
+        value: gameState.clock_time + offsetRef.current,
+        at: Date.now(),
+        running: !gameState.paused
+      };
+    } else {
+      anchorRef.current = {
+        value: readAnchor(anchorRef.current),
+        at: Date.now(),
+        running: true
+      };
+    }
+  }, [source, gameState]);
+
+  /**
+   * Current timeline value in seconds
+   */
+  const now = useCallback((): number => readAnchor(anchorRef.current), []);
+
+  /**
+   * Current in-game clock (interpolated between GSI updates), or null when
+   * the clock is not driven by GSI
+   */
+  const gameTime = useCallback((): number | null => {
+    if (source !== 'game' || offsetRef.current === null) return null;
+    return readAnchor(anchorRef.current) - offsetRef.current;
+  }, [source]);
+
+  return {
+    source,
+    now,
+    gameTime
+  };
+};
@@ -1,21 +1,47 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import type { GameState, GSIConnectionStatus } from '@/types/gsi';
+import type { GameState, GSIConnectionStatus, RawGSIData } from '@/types/gsi';
 import { validateAndSanitizeGSIData } from '@/utils/validation';
+import { buildGameState } from '@/utils/gsiGameState';
 import { retryWithBackoff } from '@/utils/retry';
 import { logger } from '@/utils/logger';
-import { createTrackedInterval, clearTrackedInterval } from '@/utils/timeout';
+import { createTrackedInterval, clearTrackedInterval, createTrackedTimeout, clearTrackedTimeout } from '@/utils/timeout';
 import { healthMonitor } from '@/utils/healthMonitor';
 
+const GSI_SERVER_URL = 'http://localhost:3000';
+// After falling back to polling, try the push stream again this often
+const STREAM_RETRY_DELAY = 30000;
+// The server sends a keepalive every 15 seconds; a stream silent for longer has stalled
+const STREAM_STALL_TIMEOUT = 45000;
+// EventSource reconnects by itself; give up on the stream after this many errors in a row
+const MAX_STREAM_ERRORS = 3;
+// How often to ask the GSI server whether it is rejecting Dota's updates
+const AUTH_CHECK_INTERVAL = 5000;
+
+// Updates are pushed over server-sent events; polling is the fallback
+type GSITransport = 'push' | 'poll';
+
+const isUsableGSIData = (data: RawGSIData | null): data is RawGSIData =>
+  !!data && !!data.map && data.map.clock_time !== undefined;
+
 export const useGameStateIntegration = () => {
   const [gameState, setGameState] = useState<GameState | null>(null);
   const [connectionStatus, setConnectionStatus] = useState<GSIConnectionStatus>('disconnected');
   const [error, setError] = useState<string | null>(null);
   const [lastSyncTime, setLastSyncTime] = useState<number | null>(null);
   const [connectionAttempts, setConnectionAttempts] = useState(0);
-  const wsRef = useRef<WebSocket | null>(null);
+  const [transport, setTransport] = useState<GSITransport>('push');
+  const [authFailing, setAuthFailing] = useState(false);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const maxRetries = 3;
 
+  const applyGSIData = useCallback((data: RawGSIData) => {
+    setGameState(buildGameState(data));
+    setConnectionStatus('connected');
+    setLastSyncTime(Date.now());
+    setError(null);
+    setConnectionAttempts(0);
+  }, []);
+
   const pollGameState = useCallback(async () => {
     try {
       setConnectionAttempts(prev => prev + 1);
@@ -27,7 +53,7 @@ export const useGameStateIntegration = () => {
           const timeoutId = setTimeout(() => controller.abort(), 3000); // 3 second timeout
           
           try {
-            const response = await fetch('http://localhost:3000/gamestate', {
+            const response = await fetch(`${GSI_SERVER_URL}/gamestate`, {
               method: 'GET',
               headers: {
                 'Accept': 'application/json',
@@ -46,7 +72,7 @@ export const useGameStateIntegration = () => {
             // Validate and sanitize data
             const sanitized = validateAndSanitizeGSIData(data);
             
-            if (!sanitized || !sanitized.map || sanitized.map.clock_time === undefined) {
+            if (!isUsableGSIData(sanitized)) {
               throw new Error('Invalid GSI data format');
             }
             
@@ -63,27 +89,7 @@ export const useGameStateIntegration = () => {
       );
 
       if (result.success && result.data) {
-        const data = result.data;
-        
-        // Extract relevant game state information
-        const rawState = data.map?.game_state || data.game_state;
-        const gameStateValue = (rawState && typeof rawState === 'string') 
-          ? rawState as GameState['game_state']
-          : 'DOTA_GAMERULES_STATE_INIT';
-
-        const newGameState: GameState = {
-          clock_time: data.map?.clock_time ?? data.clock_time ?? 0,
-          game_time: data.map?.game_time ?? data.game_time ?? data.map?.clock_time ?? data.clock_time ?? 0,
-          paused: data.map?.paused ?? data.paused ?? false,
-          game_state: gameStateValue,
-          winner: data.map?.winner ?? data.winner ?? 0
-        };
-        
-        setGameState(newGameState);
-        setConnectionStatus('connected');
-        setLastSyncTime(Date.now());
-        setError(null);
-        setConnectionAttempts(0);
+        applyGSIData(result.data);
       } else {
         throw result.error || new Error('Failed to fetch game state');
       }
@@ -103,7 +109,7 @@ export const useGameStateIntegration = () => {
         setError(errorMessage);
       }
     }
-  }, [connectionStatus, connectionAttempts, maxRetries]);
+  }, [connectionStatus, connectionAttempts, maxRetries, applyGSIData]);
 
   const connect = useCallback(() => {
     if (connectionStatus === 'connecting') return;
@@ -111,8 +117,9 @@ export const useGameStateIntegration = () => {
     setConnectionStatus('connecting');
     setConnectionAttempts(0);
     setError(null);
-    pollGameState();
-  }, [connectionStatus, pollGameState]);
+    // Each connection starts on the push stream, which opens from the effect below
+    setTransport('push');
+  }, [connectionStatus]);
 
   const disconnect = useCallback(() => {
     if (reconnectTimeoutRef.current) {
@@ -139,8 +146,85 @@ export const useGameStateIntegration = () => {
     return gameState?.game_state === 'DOTA_GAMERULES_STATE_GAME_IN_PROGRESS' || false;
   }, [gameState]);
 
-  // Auto-polling when connected or connecting
+  const isActive = connectionStatus === 'connecting' || connectionStatus === 'connected';
+
+  // Push mode: the GSI server sends each update from Dota as it arrives
   useEffect(() => {
+    if (transport !== 'push' || !isActive) return;
+
+    if (typeof EventSource === 'undefined') {
+      setTransport('poll');
+      return;
+    }
+
+    const source = new EventSource(`${GSI_SERVER_URL}/stream`);
+    let errors = 0;
+    let stallTimeout: NodeJS.Timeout | null = null;
+
+    const fallBackToPolling = (reason: string) => {
+      // Older GSI servers have no stream; polling works with every server
+      logger.warn(`GSI stream ${reason}, falling back to polling`);
+      source.close();
+      setTransport('poll');
+    };
+
+    // Any traffic, keepalives included, shows the stream is still alive
+    const markAlive = () => {
+      errors = 0;
+      if (stallTimeout) clearTrackedTimeout(stallTimeout);
+      stallTimeout = createTrackedTimeout(() => fallBackToPolling('stalled'), STREAM_STALL_TIMEOUT);
+    };
+
+    // Also covers a stream that never opens
+    markAlive();
+
+    source.onopen = () => {
+      markAlive();
+      setConnectionStatus('connected');
+      setError(null);
+      setConnectionAttempts(0);
+    };
+    source.onmessage = (event: MessageEvent<string>) => {
+      markAlive();
+      try {
+        const sanitized = validateAndSanitizeGSIData(JSON.parse(event.data));
+        if (isUsableGSIData(sanitized)) {
+          applyGSIData(sanitized);
+        } else {
+          logger.warn('Ignoring invalid GSI data from stream');
+        }
+      } catch (err) {
+        logger.warn('Ignoring unreadable GSI stream message', { error: err instanceof Error ? err.message : String(err) });
+      }
+    };
+    source.addEventListener('keepalive', markAlive);
+    source.onerror = () => {
+      errors++;
+      if (source.readyState === EventSource.CLOSED) {
+        fallBackToPolling('unavailable');
+      } else if (errors >= MAX_STREAM_ERRORS) {
+        fallBackToPolling(`failed ${errors} times`);
+      }
+    };
+
+    return () => {
+      if (stallTimeout) clearTrackedTimeout(stallTimeout);
+      source.close();
+    };
+  }, [transport, isActive, applyGSIData]);
+
+  // While polling, keep trying to get back onto the stream
+  useEffect(() => {
+    if (transport !== 'poll' || !isActive) return;
+
+    const timeoutId = createTrackedTimeout(() => setTransport('push'), STREAM_RETRY_DELAY);
+    return () => clearTrackedTimeout(timeoutId);
+  }, [transport, isActive]);
+
+  // Poll mode, when connected or connecting
+  useEffect(() => {
+    if (transport !== 'poll') return;
+
     let interval: NodeJS.Timeout | null = null;
     
     if (connectionStatus === 'connected') {
@@ -154,7 +238,30 @@ export const useGameStateIntegration = () => {
         clearTrackedInterval(interval);
       }
     };
-  }, [connectionStatus, connectionAttempts, maxRetries, pollGameState]);
+  }, [transport, connectionStatus, connectionAttempts, maxRetries, pollGameState]);
+
+  // Updates with a missing or wrong auth token never reach the app, so ask the server about them
+  useEffect(() => {
+    if (!isActive) {
+      setAuthFailing(false);
+      return;
+    }
+
+    const checkHealth = async () => {
+      try {
+        const response = await fetch(`${GSI_SERVER_URL}/health`, { headers: { 'Accept': 'application/json' } });
+        if (!response.ok) return;
+        const health = await response.json();
+        setAuthFailing(health?.authFailing === true);
+      } catch {
+        // The game state requests report an unreachable server
+      }
+    };
+
+    checkHealth();
+    const interval = createTrackedInterval(checkHealth, AUTH_CHECK_INTERVAL);
+    return () => clearTrackedInterval(interval);
+  }, [isActive]);
 
   // Auto-reconnect logic (only after error state)
   useEffect(() => {
@@ -178,6 +285,7 @@ export const useGameStateIntegration = () => {
     connectionStatus,
     isConnected: connectionStatus === 'connected',
     error,
+    authFailing,
     lastSyncTime,
     connect,
     disconnect,
@@ -0,0 +1,36 @@
+import { useEffect, useRef, useState } from 'react';
+import type { GameState } from '@/types/gsi';
+import { getMatchSnapshot, getMatchTransitions, type MatchPhase, type MatchSnapshot, type MatchTransition } from '@/utils/matchLifecycle';
+
+export type MatchLifecycleHandlers = Partial<Record<MatchTransition, () => void>>;
+
+/**
+ * Follows the match through draft, pre-game, the horn and post-game from the
+ * GSI game state, calling the handler for each transition once. The last
+ * snapshot survives GSI dropping out, so reconnecting mid-match is not a new match.
+ */
+export const useMatchLifecycle = (gameState: GameState | null, handlers: MatchLifecycleHandlers) => {
+  const [phase, setPhase] = useState<MatchPhase>('idle');
+  const handlersRef = useRef(handlers);
+  const previousRef = useRef<MatchSnapshot | null>(null);
+
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!gameState) return;
+
+    const next = getMatchSnapshot(gameState);
+    const previous = previousRef.current;
+    if (previous && previous.phase === next.phase && previous.matchId === next.matchId) return;
+
+    previousRef.current = {
+      phase: next.phase,
+      // Keep the match id through updates that leave it out
+      matchId: next.matchId ?? (next.phase === 'idle' ? undefined : previous?.matchId)
+    };
+    setPhase(next.phase);
+    getMatchTransitions(previous, next).forEach(transition => handlersRef.current[transition]?.());
+  }, [gameState]);
+
+  return phase;
+};
@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { GameState } from '@/types/gsi';
+import { createTrackedTimeout, clearTrackedTimeout } from '@/utils/timeout';
+import {
+  advanceCooldowns,
+  getCooldownSources,
+  getDefaultTrackedNames,
+  loadTrackedCooldowns,
+  saveTrackedCooldowns,
+  type ActiveCooldown,
+  type TrackedCooldowns
+} from '@/utils/cooldownTracking';
+
+const SAVE_DELAY = 500;
+
+/**
+ * Follows the local hero's tracked abilities and items while they are on
+ * cooldown and calls onReady when one comes back. Which names are tracked is
+ * chosen per hero and persisted.
+ */
+export const useMyCooldowns = (gameState: GameState | null, onReady: (cooldown: ActiveCooldown) => void) => {
+  const [trackedByHero, setTrackedByHero] = useState<TrackedCooldowns>({});
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [cooldowns, setCooldowns] = useState<ActiveCooldown[]>([]);
+  const activeRef = useRef<Map<string, ActiveCooldown>>(new Map());
+  const onReadyRef = useRef(onReady);
+
+  onReadyRef.current = onReady;
+
+  const heroName = gameState?.hero?.name;
+  const abilities = gameState?.abilities;
+  const items = gameState?.items;
+
+  const sources = useMemo(
+    () => getCooldownSources(abilities ?? [], items ?? [], heroName),
+    [abilities, items, heroName]
+  );
+
+  const trackedNames = useMemo(() => {
+    if (!heroName) return [];
+    return trackedByHero[heroName] ?? getDefaultTrackedNames(abilities ?? []);
+  }, [heroName, trackedByHero, abilities]);
+
+  // Restore the saved per-hero choices
+  useEffect(() => {
+    let cancelled = false;
+    loadTrackedCooldowns().then(stored => {
+      if (cancelled) return;
+      if (stored) setTrackedByHero(stored);
+      setIsLoaded(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    const timeoutId = createTrackedTimeout(() => saveTrackedCooldowns(trackedByHero), SAVE_DELAY);
+    return () => clearTrackedTimeout(timeoutId);
+  }, [isLoaded, trackedByHero]);
+
+  useEffect(() => {
+    const { active, ready } = advanceCooldowns(activeRef.current, sources, trackedNames);
+    activeRef.current = active;
+    ready.forEach(cooldown => onReadyRef.current(cooldown));
+    setCooldowns(Array.from(active.values()));
+  }, [sources, trackedNames]);
+
+  const setTracked = useCallback((name: string, tracked: boolean) => {
+    if (!heroName) return;
+    setTrackedByHero(prev => {
+      const current = prev[heroName] ?? trackedNames;
+      const next = tracked
+        ? Array.from(new Set([...current, name]))
+        : current.filter(n => n !== name);
+      return { ...prev, [heroName]: next };
+    });
+  }, [heroName, trackedNames]);
+
+  const resetTracked = useCallback(() => {
+    if (!heroName) return;
+    setTrackedByHero(prev => {
+      const updated = { ...prev };
+      delete updated[heroName];
+      return updated;
+    });
+  }, [heroName]);
+
+  return {
+    heroName,
+    cooldowns,
+    sources,
+    trackedNames,
+    setTracked,
+    resetTracked
+  };
+};
@@ -0,0 +1,92 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { GameLane, GameSide } from '@/utils/gameRules';
+import { getNextWindowTime, getStackingWindows, LANING_PHASE_END, type StackingWindow } from '@/utils/neutralCamps';
+import { createTrackedInterval, clearTrackedInterval } from '@/utils/timeout';
+
+export interface UpcomingStackingWindow extends StackingWindow {
+  secondsUntil: number;
+}
+
+interface UseStackingAssistantOptions {
+  gameTime: () => number | null; // Current game clock time, null without GSI
+  side: GameSide;
+  lane: GameLane;
+  ancientStackSecond: number;
+  enabled: boolean;
+  laningOnly: boolean; // Mute announcements once the laning phase is over
+  onAnnounce: (window: StackingWindow, secondsUntil: number) => void;
+}
+
+// Seconds of notice before each window, enough to walk to the camp
+const ANNOUNCE_LEAD = 5;
+const MAX_ANNOUNCED = 100;
+
+/**
+ * Tracks the pull and stack windows for the player's side and lane against
+ * the game clock and announces each one shortly before it opens.
+ */
+export const useStackingAssistant = ({
+  gameTime,
+  side,
+  lane,
+  ancientStackSecond,
+  enabled,
+  laningOnly,
+  onAnnounce
+}: UseStackingAssistantOptions) => {
+  const [upcoming, setUpcoming] = useState<UpcomingStackingWindow[]>([]);
+  const [clockTime, setClockTime] = useState<number | null>(null);
+  const onAnnounceRef = useRef(onAnnounce);
+  const announcedRef = useRef<Set<string>>(new Set());
+
+  onAnnounceRef.current = onAnnounce;
+
+  const windows = useMemo(
+    () => getStackingWindows(side, lane, ancientStackSecond),
+    [side, lane, ancientStackSecond]
+  );
+
+  useEffect(() => {
+    const update = () => {
+      const now = gameTime();
+      setClockTime(now);
+      if (now === null) {
+        setUpcoming([]);
+        return;
+      }
+
+      const next = windows
+        .map(window => ({ ...window, secondsUntil: Math.ceil(getNextWindowTime(window, now) - now) }))
+        .sort((a, b) => a.secondsUntil - b.secondsUntil);
+      setUpcoming(next);
+
+      const isMuted = !enabled || (laningOnly && now >= LANING_PHASE_END);
+      if (isMuted) return;
+
+      next.forEach(window => {
+        if (window.secondsUntil > ANNOUNCE_LEAD) return;
+
+        // Each occurrence is announced once, keyed by the minute it falls in
+        const key = `${window.id}:${Math.floor((now + window.secondsUntil) / 60)}`;
+        if (announcedRef.current.has(key)) return;
+
+        announcedRef.current.add(key);
+        if (announcedRef.current.size > MAX_ANNOUNCED) {
+          const oldest = announcedRef.current.values().next().value;
+          announcedRef.current.delete(oldest);
+        }
+        onAnnounceRef.current(window, window.secondsUntil);
+      });
+    };
+
+    update();
+    const interval = createTrackedInterval(update, 1000);
+    return () => clearTrackedInterval(interval);
+  }, [gameTime, windows, enabled, laningOnly]);
+
+  return {
+    upcoming,
+    hasGameClock: clockTime !== null,
+    isMuted: !enabled || (laningOnly && clockTime !== null && clockTime >= LANING_PHASE_END)
+  };
+};
@@ -1,4 +1,9 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { applyModeToTime, type GameMode } from '@/utils/gameRules';
+import { getNextSpawn, getPeriodicSchedule, type PeriodicSchedule } from '@/utils/periodicSchedule';
+import { loadTimingConfiguration, normalizeWarningTimes, saveTimingConfiguration } from '@/utils/timingStorage';
+import { createTrackedTimeout, clearTrackedTimeout } from '@/utils/timeout';
+import { DEFAULT_PATCH_ID, getPatchEventTime, getTimingPatch, TIMING_PATCHES, type TimingPatch } from '@/utils/timingPatches';
 
 export interface TimingEvent {
   id: string;
@@ -7,6 +12,7 @@ export interface TimingEvent {
   customTime?: number;
   description: string;
   category: 'spawn' | 'respawn' | 'periodic';
+  defaultWarnings: number[]; // Seconds before the event to warn at, largest first
 }
 
 export interface TimingPreset {
@@ -24,118 +30,190 @@ const DEFAULT_TIMING_EVENTS: TimingEvent[] = [
     name: 'Roshan Respawn',
     defaultTime: 660, // 11 minutes
     description: 'Time between Roshan death and respawn (8-11 minutes)',
-    category: 'respawn'
+    category: 'respawn',
+    defaultWarnings: [60]
   },
   {
     id: 'bounty-rune',
     name: 'Bounty Rune',
     defaultTime: 300, // 5 minutes
     description: 'Bounty rune spawn interval',
-    category: 'periodic'
+    category: 'periodic',
+    defaultWarnings: [30, 10]
   },
   {
     id: 'power-rune',
     name: 'Power Rune',
     defaultTime: 120, // 2 minutes
     description: 'Power rune spawn interval',
-    category: 'periodic'
+    category: 'periodic',
+    defaultWarnings: [30, 10]
   },
   {
     id: 'lotus-pool',
     name: 'Lotus Pool',
     defaultTime: 180, // 3 minutes
-    description: 'Lotus pool respawn time',
-    category: 'respawn'
+    description: 'Lotus pool growth interval',
+    category: 'periodic',
+    defaultWarnings: [15]
   },
   {
     id: 'neutral-pull',
     name: 'Neutral Pull',
     defaultTime: 60, // 1 minute
     description: 'Time between neutral creep spawns',
-    category: 'periodic'
+    category: 'periodic',
+    defaultWarnings: [15]
   },
   {
     id: 'ancient-stack',
     name: 'Ancient Stack',
     defaultTime: 55, // 55 seconds before minute mark
     description: 'Optimal time to stack ancient camps',
-    category: 'periodic'
+    category: 'periodic',
+    defaultWarnings: [10]
   },
   {
     id: 'observer-ward',
     name: 'Observer Ward Stock',
     defaultTime: 135, // 2 minutes 15 seconds
     description: 'Observer ward stock replenishment',
-    category: 'periodic'
+    category: 'periodic',
+    defaultWarnings: []
   },
   {
     id: 'sentry-ward',
     name: 'Sentry Ward Stock',
     defaultTime: 85, // 1 minute 25 seconds
     description: 'Sentry ward stock replenishment',
-    category: 'periodic'
+    category: 'periodic',
+    defaultWarnings: []
   },
   {
     id: 'wisdom-shrine',
     name: 'Wisdom Shrine',
     defaultTime: 420, // 7 minutes
     description: 'Wisdom shrine activation availability',
-    category: 'periodic'
+    category: 'periodic',
+    defaultWarnings: [30]
+  },
+  {
+    id: 'tormentor',
+    name: 'Tormentor',
+    defaultTime: 600, // 10 minutes
+    description: 'Tormentor respawn after being killed (first spawn at 20:00)',
+    category: 'respawn',
+    defaultWarnings: [30]
   }
 ];
 
-const DEFAULT_PRESETS: TimingPreset[] = [
+export const DEFAULT_PRESET_ID = 'default';
+
+// Built-in presets are generated for the selected patch by offsetting its defaults
+const BUILT_IN_PRESETS: Array<Omit<TimingPreset, 'version' | 'events'> & { offset: number }> = [
   {
-    id: 'default-7.35',
-    name: 'Default (7.35)',
-    version: '7.35',
-    description: 'Standard timings for Dota 2 patch 7.35',
-    events: {},
-    isDefault: true
+    id: DEFAULT_PRESET_ID,
+    name: 'Default',
+    description: 'Standard timings for the selected patch',
+    offset: 0
   },
   {
     id: 'early-warning',
     name: 'Early Warning',
-    version: '7.35',
     description: '2 seconds earlier notifications for quick reactions',
-    events: {
-      'roshan-respawn': 658,
-      'bounty-rune': 298,
-      'power-rune': 118,
-      'lotus-pool': 178,
-      'neutral-pull': 58,
-      'ancient-stack': 53,
-      'observer-ward': 133,
-      'sentry-ward': 83
-    }
+    offset: -2
   },
   {
     id: 'conservative',
     name: 'Conservative',
-    version: '7.35',
     description: '5 seconds earlier for safer timing',
-    events: {
-      'roshan-respawn': 655,
-      'bounty-rune': 295,
-      'power-rune': 115,
-      'lotus-pool': 175,
-      'neutral-pull': 55,
-      'ancient-stack': 50,
-      'observer-ward': 130,
-      'sentry-ward': 80
-    }
+    offset: -5
   }
 ];
 
+const createBuiltInPresets = (patch: TimingPatch, events: TimingEvent[]): TimingPreset[] =>
+  BUILT_IN_PRESETS.map(({ offset, ...preset }) => ({
+    ...preset,
+    name: `${preset.name} (${patch.id})`,
+    version: patch.id,
+    events: offset === 0
+      ? {}
+      : Object.fromEntries(events.map(event => [event.id, Math.max(1, event.defaultTime + offset)])),
+    isDefault: true
+  }));
+
+const isBuiltInPreset = (presetId: string) => BUILT_IN_PRESETS.some(p => p.id === presetId);
+
+const SAVE_DELAY = 500; // Debounce writes while timings are being edited
+
 export const useTimingConfiguration = () => {
-  const [timingEvents] = useState<TimingEvent[]>(DEFAULT_TIMING_EVENTS);
-  const [presets, setPresets] = useState<TimingPreset[]>(DEFAULT_PRESETS);
-  const [activePresetId, setActivePresetId] = useState<string>('default-7.35');
+  const [patchId, setPatchId] = useState<string>(DEFAULT_PATCH_ID);
+  const [gameMode, setGameMode] = useState<GameMode>('allpick');
+  const [customPresets, setCustomPresets] = useState<TimingPreset[]>([]);
+  const [activePresetId, setActivePresetId] = useState<string>(DEFAULT_PRESET_ID);
   const [customTimings, setCustomTimings] = useState<Record<string, number>>({});
+  const [customWarnings, setCustomWarnings] = useState<Record<string, number[]>>({});
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  const patch = useMemo(() => getTimingPatch(patchId), [patchId]);
+
+  // Events available on the selected patch, with that patch's default times
+  const timingEvents = useMemo(() => DEFAULT_TIMING_EVENTS.flatMap(event => {
+    const defaultTime = getPatchEventTime(patch, event.id, event.defaultTime);
+    return defaultTime === null ? [] : [{ ...event, defaultTime }];
+  }), [patch]);
+
+  const presets = useMemo(
+    () => [...createBuiltInPresets(patch, timingEvents), ...customPresets],
+    [patch, timingEvents, customPresets]
+  );
+
+  // Restore saved presets and custom timings
+  useEffect(() => {
+    let cancelled = false;
+
+    loadTimingConfiguration(DEFAULT_TIMING_EVENTS.map(e => e.id)).then(stored => {
+      if (cancelled) return;
+      if (stored) {
+        const storedPresets = stored.presets.filter(p => !isBuiltInPreset(p.id));
+        const isKnownPreset = isBuiltInPreset(stored.activePresetId) ||
+          storedPresets.some(p => p.id === stored.activePresetId);
+        setCustomPresets(storedPresets);
+        setActivePresetId(isKnownPreset ? stored.activePresetId : DEFAULT_PRESET_ID);
+        setCustomTimings(stored.customTimings);
+        setCustomWarnings(stored.customWarnings);
+        setPatchId(getTimingPatch(stored.patchId).id);
+      }
+      setIsLoaded(true);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Persist changes once the stored configuration has been restored
+  useEffect(() => {
+    if (!isLoaded) return;
+
+    const timeoutId = createTrackedTimeout(() => {
+      saveTimingConfiguration({
+        presets: customPresets,
+        activePresetId,
+        customTimings,
+        customWarnings,
+        patchId,
+        eventIds: DEFAULT_TIMING_EVENTS.map(e => e.id)
+      });
+    }, SAVE_DELAY);
+
+    return () => clearTrackedTimeout(timeoutId);
+  }, [isLoaded, customPresets, activePresetId, customTimings, customWarnings, patchId]);
 
   const activePreset = presets.find(p => p.id === activePresetId);
 
-  const getEffectiveTime = useCallback((eventId: string): number => {
+  // Configured time before game mode rules are applied
+  const getConfiguredTime = useCallback((eventId: string): number => {
     const event = timingEvents.find(e => e.id === eventId);
     if (!event) return 0;
 
@@ -151,6 +229,22 @@ export const useTimingConfiguration = () => {
     return event.defaultTime;
   }, [timingEvents, customTimings, activePreset]);
 
+  const getEffectiveTime = useCallback((eventId: string): number => {
+    return applyModeToTime(eventId, getConfiguredTime(eventId), gameMode);
+  }, [getConfiguredTime, gameMode]);
+
+  // Spawn schedule of a periodic event from the game's own interval; the
+  // configured time only shifts its alerts, e.g. 2 seconds early
+  const getSpawnSchedule = useCallback((eventId: string): PeriodicSchedule | null => {
+    const event = timingEvents.find(e => e.id === eventId);
+    if (!event) return null;
+    return getPeriodicSchedule(
+      eventId,
+      applyModeToTime(eventId, event.defaultTime, gameMode),
+      getConfiguredTime(eventId) - event.defaultTime
+    );
+  }, [timingEvents, gameMode, getConfiguredTime]);
+
   const setCustomTiming = useCallback((eventId: string, time: number) => {
     setCustomTimings(prev => ({
       ...prev,
@@ -168,29 +262,54 @@ export const useTimingConfiguration = () => {
 
   const resetAllCustomTimings = useCallback(() => {
     setCustomTimings({});
+    setCustomWarnings({});
+  }, []);
+
+  // Lead times in seconds before an event at which to warn, largest first
+  const getWarningTimes = useCallback((eventId: string): number[] => {
+    return customWarnings[eventId] ?? timingEvents.find(e => e.id === eventId)?.defaultWarnings ?? [];
+  }, [timingEvents, customWarnings]);
+
+  const setWarningTimes = useCallback((eventId: string, times: number[]) => {
+    setCustomWarnings(prev => ({
+      ...prev,
+      [eventId]: normalizeWarningTimes(times)
+    }));
+  }, []);
+
+  const resetWarningTimes = useCallback((eventId: string) => {
+    setCustomWarnings(prev => {
+      const updated = { ...prev };
+      delete updated[eventId];
+      return updated;
+    });
   }, []);
 
   const createCustomPreset = useCallback((name: string, description: string) => {
     const newPreset: TimingPreset = {
       id: `custom-${Date.now()}`,
       name,
-      version: 'Custom',
+      version: patch.id,
       description,
       events: { ...customTimings }
     };
     
-    setPresets(prev => [...prev, newPreset]);
+    setCustomPresets(prev => [...prev, newPreset]);
     return newPreset.id;
-  }, [customTimings]);
+  }, [customTimings, patch]);
+
+  const importPresets = useCallback((imported: TimingPreset[]) => {
+    setCustomPresets(prev => [...prev, ...imported.map(preset => ({ ...preset, isDefault: false }))]);
+  }, []);
 
   const deletePreset = useCallback((presetId: string) => {
     const preset = presets.find(p => p.id === presetId);
     if (preset?.isDefault) return false; // Can't delete default presets
     
-    setPresets(prev => prev.filter(p => p.id !== presetId));
+    setCustomPresets(prev => prev.filter(p => p.id !== presetId));
     
     if (activePresetId === presetId) {
-      setActivePresetId('default-7.35');
+      setActivePresetId(DEFAULT_PRESET_ID);
     }
     
     return true;
@@ -204,12 +323,20 @@ export const useTimingConfiguration = () => {
     setCustomTimings({}); // Clear custom timings when loading preset
   }, [presets]);
 
+  const isEventAvailable = useCallback((eventId: string): boolean => {
+    return timingEvents.some(e => e.id === eventId);
+  }, [timingEvents]);
+
   const getUpcomingEvents = useCallback((gameTime: number) => {
     return timingEvents.map(event => {
       const effectiveTime = getEffectiveTime(event.id);
+      const schedule = getSpawnSchedule(event.id);
       let nextEventTime: number;
       
-      if (event.category === 'periodic') {
+      if (schedule) {
+        // Map objectives follow their spawn schedule from the horn
+        nextEventTime = getNextSpawn(schedule, gameTime).time;
+      } else if (event.category === 'periodic') {
         // For periodic events, calculate next occurrence
         const cycle = Math.floor(gameTime / effectiveTime);
         nextEventTime = (cycle + 1) * effectiveTime;
@@ -225,19 +352,33 @@ export const useTimingConfiguration = () => {
         timeUntilNext: nextEventTime - gameTime
       };
     }).sort((a, b) => a.timeUntilNext - b.timeUntilNext);
-  }, [timingEvents, getEffectiveTime]);
+  }, [timingEvents, getEffectiveTime, getSpawnSchedule]);
 
   return {
     timingEvents,
+    patches: TIMING_PATCHES,
+    patch,
+    setPatchId,
+    isEventAvailable,
     presets,
     activePreset,
     activePresetId,
     customTimings,
+    customWarnings,
+    isLoaded,
+    gameMode,
+    setGameMode,
+    getConfiguredTime,
     getEffectiveTime,
+    getSpawnSchedule,
     setCustomTiming,
     resetCustomTiming,
     resetAllCustomTimings,
+    getWarningTimes,
+    setWarningTimes,
+    resetWarningTimes,
     createCustomPreset,
+    importPresets,
     deletePreset,
     loadPreset,
     getUpcomingEvents
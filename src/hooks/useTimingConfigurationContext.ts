@@ -0,0 +1,18 @@
+import { createContext, useContext } from 'react';
+import type { useTimingConfiguration } from '@/hooks/useTimingConfiguration';
+
+export type TimingConfigurationValue = ReturnType<typeof useTimingConfiguration>;
+
+export const TimingConfigurationContext = createContext<TimingConfigurationValue | null>(null);
+
+/**
+ * Shared timing configuration, so the timers and the configuration dialog
+ * read and edit the same presets
+ */
+export const useTimingConfigurationContext = (): TimingConfigurationValue => {
+  const context = useContext(TimingConfigurationContext);
+  if (!context) {
+    throw new Error('useTimingConfigurationContext must be used within a TimingConfigurationProvider');
+  }
+  return context;
+};
@@ -0,0 +1,152 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { GSIItem } from '@/types/gsi';
+import { createTrackedInterval, clearTrackedInterval } from '@/utils/timeout';
+import {
+  advanceWardStock,
+  countPurchasedWards,
+  createWardStock,
+  getWardHoldings,
+  takeWards,
+  WARD_STOCK_RULES,
+  type WardHoldings,
+  type WardStock,
+  type WardType
+} from '@/utils/wardStock';
+
+export interface WardStockView extends WardStock {
+  max: number;
+  restockRemaining: number | null; // Seconds until the next ward, null while full
+}
+
+interface UseWardStockOptions {
+  now: () => number; // Clock timeline (see useGameClock)
+  gameTime: () => number | null; // Game clock seconds (see useGameClock)
+  intervals: Record<WardType, number>; // Restock interval in seconds
+  items?: GSIItem[]; // Local player's items from GSI, used to spot purchases
+  gold?: number; // Local player's gold from GSI, used to tell purchases from gifts
+  onRestock: (type: WardType) => void;
+}
+
+const WARD_TYPES: WardType[] = ['observer', 'sentry'];
+
+const toView = (stock: WardStock, type: WardType, interval: number, now: number): WardStockView => ({
+  ...stock,
+  max: WARD_STOCK_RULES[type].max,
+  restockRemaining: stock.restockStartedAt === null
+    ? null
+    : Math.max(0, Math.ceil(interval - (now - stock.restockStartedAt)))
+});
+
+/**
+ * Models the shop's ward stock. With the game clock, restocking counts from
+ * the horn. Purchases are taken from the stock when the local player buys
+ * wards according to GSI, or recorded by hand without GSI.
+ */
+export const useWardStock = ({ now, gameTime, intervals, items, gold, onRestock }: UseWardStockOptions) => {
+  const [stocks, setStocks] = useState<Record<WardType, WardStockView>>(() => ({
+    observer: toView(createWardStock('observer', now()), 'observer', intervals.observer, now()),
+    sentry: toView(createWardStock('sentry', now()), 'sentry', intervals.sentry, now())
+  }));
+  const stocksRef = useRef(stocks);
+  const onRestockRef = useRef(onRestock);
+  const holdingsRef = useRef<WardHoldings | null>(null);
+  const hornAnchoredRef = useRef(false);
+
+  stocksRef.current = stocks;
+  onRestockRef.current = onRestock;
+
+  const updateStock = useCallback((type: WardType, update: (stock: WardStock, at: number) => WardStock) => {
+    setStocks(prev => {
+      const at = now();
+      return { ...prev, [type]: toView(update(prev[type], at), type, intervals[type], at) };
+    });
+  }, [now, intervals]);
+
+  // Restock once per interval and keep the countdowns current
+  useEffect(() => {
+    const interval = createTrackedInterval(() => {
+      const at = now();
+
+      // Restocking counts from the horn; until it sounds, keep moving the
+      // countdowns with the pre-game clock. Joining mid-game catches up silently.
+      const currentGameTime = gameTime();
+      if (!hornAnchoredRef.current && currentGameTime !== null) {
+        const hornAt = at - currentGameTime;
+        hornAnchoredRef.current = currentGameTime >= 0;
+        setStocks(prev => {
+          const updated = { ...prev };
+          WARD_TYPES.forEach(type => {
+            if (prev[type].restockStartedAt === null) return;
+            const { stock } = advanceWardStock({ ...prev[type], restockStartedAt: hornAt }, type, intervals[type], at);
+            updated[type] = toView(stock, type, intervals[type], at);
+          });
+          return updated;
+        });
+        return;
+      }
+
+      // Notify from the last rendered stock; the update itself stays functional
+      WARD_TYPES.forEach(type => {
+        if (advanceWardStock(stocksRef.current[type], type, intervals[type], at).restocked > 0) {
+          onRestockRef.current(type);
+        }
+      });
+
+      setStocks(prev => {
+        let changed = false;
+        const updated = { ...prev };
+
+        WARD_TYPES.forEach(type => {
+          const { stock } = advanceWardStock(prev[type], type, intervals[type], at);
+          const view = toView(stock, type, intervals[type], at);
+          if (view.count !== prev[type].count || view.restockRemaining !== prev[type].restockRemaining) {
+            updated[type] = view;
+            changed = true;
+          }
+        });
+
+        return changed ? updated : prev;
+      });
+    }, 1000);
+
+    return () => clearTrackedInterval(interval);
+  }, [now, gameTime, intervals]);
+
+  // Take the wards the local player bought since the last update from the stock
+  useEffect(() => {
+    if (!items) {
+      holdingsRef.current = null;
+      return;
+    }
+
+    const holdings = getWardHoldings(items, gold ?? null);
+    const previous = holdingsRef.current;
+    holdingsRef.current = holdings;
+    if (!previous) return;
+
+    const purchased = countPurchasedWards(previous, holdings);
+    WARD_TYPES.forEach(type => {
+      if (purchased[type] > 0) {
+        updateStock(type, (stock, at) => takeWards(stock, type, purchased[type], at));
+      }
+    });
+  }, [items, gold, updateStock]);
+
+  const takeWard = useCallback((type: WardType) => {
+    updateStock(type, (stock, at) => takeWards(stock, type, 1, at));
+  }, [updateStock]);
+
+  // Resetting every stock starts a new match, counting from its horn again
+  const resetStock = useCallback((type?: WardType) => {
+    if (!type) {
+      hornAnchoredRef.current = false;
+    }
+    (type ? [type] : WARD_TYPES).forEach(t => updateStock(t, (_, at) => createWardStock(t, at)));
+  }, [updateStock]);
+
+  return {
+    stocks,
+    takeWard,
+    resetStock
+  };
+};
@@ -1,4 +1,5 @@
 import { TimerManager } from '@/components/TimerManager';
+import { TimingConfigurationProvider } from '@/components/TimingConfigurationProvider';
 
 const Index = () => {
   return (
@@ -11,7 +12,9 @@ const Index = () => {
       </div>
       
       <div className="max-w-6xl mx-auto relative z-10">
-        <TimerManager />
+        <TimingConfigurationProvider>
+          <TimerManager />
+        </TimingConfigurationProvider>
       </div>
     </div>
   );
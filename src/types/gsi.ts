@@ -10,12 +10,127 @@ export type DotaGameState =
   | 'DOTA_GAMERULES_STATE_POST_GAME'
   | 'DOTA_GAMERULES_STATE_DISCONNECT';
 
+export type GSIEventType =
+  | 'roshan_killed'
+  | 'aegis_picked_up'
+  | 'aegis_denied'
+  | 'courier_killed'
+  | 'bounty_rune_pickup'
+  | 'tip';
+
+// Entry of the GSI `events` array; Dota resends recent events on every update
+export interface GSIEvent {
+  game_time: number;
+  event_type: GSIEventType;
+  killed_by_team?: 'radiant' | 'dire';
+  killer_player_id?: number;
+  player_id?: number;
+  snatched?: boolean;
+}
+
+export type GSITeam = 'radiant' | 'dire';
+
+// Local player's stats from the GSI `player` block
+export interface GSIPlayer {
+  steamid?: string;
+  accountid?: string;
+  name?: string;
+  activity?: string; // "playing" or "menu"
+  team_name?: GSITeam;
+  player_slot?: number;
+  kills: number;
+  deaths: number;
+  assists: number;
+  last_hits: number;
+  denies: number;
+  kill_streak: number;
+  gold: number;
+  gold_reliable: number;
+  gold_unreliable: number;
+  gpm: number;
+  xpm: number;
+}
+
+// Local player's hero from the GSI `hero` block
+export interface GSIHero {
+  id: number;
+  name: string; // Internal hero name, e.g. "npc_dota_hero_axe"
+  level: number;
+  alive: boolean;
+  respawn_seconds: number;
+  buyback_cost: number;
+  buyback_cooldown: number;
+  health: number;
+  max_health: number;
+  mana: number;
+  max_mana: number;
+  xpos?: number;
+  ypos?: number;
+  aghanims_scepter: boolean;
+  aghanims_shard: boolean;
+  silenced: boolean;
+  stunned: boolean;
+  hexed: boolean;
+  muted: boolean;
+  break: boolean;
+  smoked: boolean;
+}
+
+// Hero ability from the GSI `abilities` block
+export interface GSIAbility {
+  slot: string; // GSI slot key, e.g. "ability0"
+  name: string; // Internal ability name, e.g. "axe_berserkers_call"
+  level: number;
+  can_cast: boolean;
+  passive: boolean;
+  ability_active: boolean;
+  cooldown: number; // Seconds remaining
+  ultimate: boolean;
+}
+
+// Item held by the local player; empty slots are left out
+export interface GSIItem {
+  slot: string; // GSI slot key, e.g. "slot0", "stash2" or "neutral0"
+  name: string; // Item name, e.g. "item_ward_observer"
+  purchaser?: number; // Player slot of the buyer
+  can_cast?: boolean;
+  cooldown?: number; // Seconds remaining
+  passive?: boolean;
+  charges?: number;
+  secondary_charges?: number;
+}
+
+// Tower, barracks or ancient from the GSI `buildings` block
+export interface GSIBuilding {
+  name: string; // Internal building name, e.g. "dota_goodguys_tower1_top"
+  team: GSITeam;
+  health: number;
+  max_health: number;
+}
+
+export type RoshanState = 'alive' | 'respawn_base' | 'respawn_variable';
+
 export interface GameState {
   clock_time: number;
   game_time: number;
   paused: boolean;
   game_state: DotaGameState;
   winner: number;
+  win_team?: GSITeam; // Winning team once the match is over
+  events: GSIEvent[];
+  roshan_state?: RoshanState;
+  roshan_state_end_seconds?: number;
+  glyph_cooldown?: Partial<Record<GSITeam, number>>; // Seconds until each team's glyph is ready, where reported
+  daytime?: boolean;
+  nightstalker_night?: boolean; // Night forced by Night Stalker's ultimate
+  matchid?: string;
+  customgamename?: string;
+  game_mode?: string;
+  player?: GSIPlayer;
+  hero?: GSIHero;
+  abilities?: GSIAbility[];
+  items?: GSIItem[];
+  buildings?: GSIBuilding[];
 }
 
 export type GSIConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
@@ -28,7 +143,29 @@ export interface RawGSIData {
     paused?: boolean;
     game_state?: string;
     winner?: number;
+    win_team?: GSITeam; // GSI reports "none" until the match is decided
+    roshan_state?: RoshanState;
+    roshan_state_end_seconds?: number;
+    radiant_glyph_cooldown?: number;
+    dire_glyph_cooldown?: number;
+    daytime?: boolean;
+    nightstalker_night?: boolean;
+    matchid?: string;
+    customgamename?: string;
+    game_mode?: string;
+  };
+  provider?: {
+    name?: string;
+    appid?: number;
+    version?: string;
+    timestamp?: number;
   };
+  events?: GSIEvent[];
+  player?: GSIPlayer;
+  hero?: GSIHero;
+  abilities?: Record<string, GSIAbility>;
+  items?: Record<string, GSIItem>;
+  buildings?: Partial<Record<GSITeam, Record<string, GSIBuilding>>>;
   clock_time?: number;
   game_time?: number;
   paused?: boolean;
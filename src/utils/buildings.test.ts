@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import type { GSIBuilding } from '@/types/gsi';
+import { getTeamBuildingNames, parseBuildingName, refreshesGlyph, updateBuildings, type BuildingStatus } from './buildings';
+
+const standing = (name: string, health = 1000): GSIBuilding => ({
+  name,
+  team: name.includes('good') ? 'radiant' : 'dire',
+  health,
+  max_health: 1000
+});
+
+const allStanding = (exclude: string[] = []) =>
+  getTeamBuildingNames('radiant').filter(name => !exclude.includes(name)).map(name => standing(name));
+
+describe('parseBuildingName', () => {
+  it('reads towers, barracks and ancients', () => {
+    expect(parseBuildingName('dota_goodguys_tower1_top')).toEqual({ kind: 'tower', team: 'radiant', lane: 'top', tier: 1, label: 'Top T1' });
+    expect(parseBuildingName('dota_badguys_tower4_bot')).toMatchObject({ team: 'dire', tier: 4, label: 'T4 Bot' });
+    expect(parseBuildingName('bad_rax_range_mid')).toEqual({ kind: 'barracks', team: 'dire', lane: 'mid', label: 'Mid Ranged' });
+    expect(parseBuildingName('dota_goodguys_fort')).toEqual({ kind: 'ancient', team: 'radiant', label: 'Ancient' });
+  });
+
+  it('ignores other buildings', () => {
+    expect(parseBuildingName('good_filler_1')).toBeNull();
+    expect(parseBuildingName('dota_goodguys_tower5_top')).toBeNull();
+  });
+});
+
+describe('getTeamBuildingNames', () => {
+  it('lists every structure a team starts with', () => {
+    const names = getTeamBuildingNames('dire');
+    expect(names).toHaveLength(18);
+    expect(names.every(name => parseBuildingName(name)?.team === 'dire')).toBe(true);
+  });
+});
+
+describe('updateBuildings', () => {
+  const tower = 'dota_goodguys_tower1_top';
+
+  it('tracks health of standing structures', () => {
+    const { structures, destroyed } = updateBuildings(new Map(), [standing(tower, 640)], 100);
+    expect(structures.get(tower)).toMatchObject({ health: 640, maxHealth: 1000, isDestroyed: false, destroyedAt: null });
+    expect(destroyed).toEqual([]);
+  });
+
+  it('marks a structure destroyed when it reaches 0 health', () => {
+    const { structures: known } = updateBuildings(new Map(), allStanding(), 100);
+    const { structures, destroyed } = updateBuildings(known, [...allStanding([tower]), standing(tower, 0)], 612);
+    expect(destroyed.map(b => b.name)).toEqual([tower]);
+    expect(structures.get(tower)).toMatchObject({ isDestroyed: true, destroyedAt: 612 });
+
+    // Later reports keep the original time and don't report it again
+    const later = updateBuildings(structures, [...allStanding([tower]), standing(tower, 0)], 700);
+    expect(later.destroyed).toEqual([]);
+    expect(later.structures.get(tower)?.destroyedAt).toBe(612);
+  });
+
+  it('marks a structure destroyed when it drops out of the report', () => {
+    const { structures: known } = updateBuildings(new Map(), allStanding(), 100);
+    const { structures, destroyed } = updateBuildings(known, allStanding([tower]), 612);
+    expect(destroyed.map(b => b.name)).toEqual([tower]);
+    expect(structures.get(tower)).toMatchObject({ health: 0, maxHealth: 1000, isDestroyed: true, destroyedAt: 612 });
+  });
+
+  it('marks structures missing from the first report without a time', () => {
+    const { structures, destroyed } = updateBuildings(new Map(), allStanding([tower]), 900);
+    expect(destroyed).toEqual([]);
+    expect(structures.get(tower)).toMatchObject({ isDestroyed: true, destroyedAt: null });
+  });
+
+  it('leaves teams that are not in the report alone', () => {
+    const { structures } = updateBuildings(new Map<string, BuildingStatus>(), allStanding(), 100);
+    expect([...structures.keys()].some(name => name.startsWith('dota_badguys') || name.startsWith('bad_rax'))).toBe(false);
+  });
+
+  it('skips buildings that are not tracked', () => {
+    const { structures } = updateBuildings(new Map(), [standing('good_filler_1')], 100);
+    expect(structures.has('good_filler_1')).toBe(false);
+  });
+});
+
+describe('refreshesGlyph', () => {
+  it('only refreshes on tier 1 towers', () => {
+    expect(refreshesGlyph(parseBuildingName('dota_badguys_tower1_mid')!)).toBe(true);
+    expect(refreshesGlyph(parseBuildingName('dota_badguys_tower2_mid')!)).toBe(false);
+    expect(refreshesGlyph(parseBuildingName('bad_rax_melee_mid')!)).toBe(false);
+  });
+});
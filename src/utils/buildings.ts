@@ -0,0 +1,165 @@
+// Structure layout and glyph rules for the building tracker
+
+import type { Timer } from '@/components/TimerCard';
+import type { GSIBuilding, GSITeam } from '@/types/gsi';
+
+export type BuildingKind = 'tower' | 'barracks' | 'ancient';
+export type BuildingLane = 'top' | 'mid' | 'bot';
+
+export interface BuildingInfo {
+  kind: BuildingKind;
+  team: GSITeam;
+  lane?: BuildingLane; // Tier 4 towers use top and bot for their side of the ancient
+  tier?: number; // Towers only, 1-4
+  label: string; // Short name, e.g. "Top T1" or "Mid Melee"
+}
+
+export interface BuildingStatus extends BuildingInfo {
+  name: string;
+  health: number;
+  maxHealth: number;
+  isDestroyed: boolean;
+  destroyedAt: number | null; // Game clock second the building fell, when known
+}
+
+// Both teams' glyphs go on this cooldown when used
+export const GLYPH_COOLDOWN = 300;
+
+// Shown inside the building panel rather than the grid
+export const GLYPH_TIMER: Timer = {
+  id: 'glyph',
+  name: 'Glyph',
+  duration: GLYPH_COOLDOWN,
+  type: 'custom',
+  audioAlert: true
+};
+
+export const BUILDING_LANES: BuildingLane[] = ['top', 'mid', 'bot'];
+
+const LANE_NAMES: Record<BuildingLane, string> = { top: 'Top', mid: 'Mid', bot: 'Bot' };
+
+const TOWER_PATTERN = /^dota_(goodguys|badguys)_tower([1-4])_(top|mid|bot)$/;
+const BARRACKS_PATTERN = /^(good|bad)_rax_(melee|range)_(top|mid|bot)$/;
+const ANCIENT_PATTERN = /^dota_(goodguys|badguys)_fort$/;
+
+const toTeam = (prefix: string): GSITeam => prefix.startsWith('good') ? 'radiant' : 'dire';
+
+/**
+ * GSI names of every tower, barracks and ancient a team starts with
+ */
+export function getTeamBuildingNames(team: GSITeam): string[] {
+  const tower = team === 'radiant' ? 'dota_goodguys' : 'dota_badguys';
+  const rax = team === 'radiant' ? 'good_rax' : 'bad_rax';
+  return [
+    ...BUILDING_LANES.flatMap(lane => [
+      `${tower}_tower1_${lane}`,
+      `${tower}_tower2_${lane}`,
+      `${tower}_tower3_${lane}`,
+      `${rax}_melee_${lane}`,
+      `${rax}_range_${lane}`
+    ]),
+    `${tower}_tower4_top`,
+    `${tower}_tower4_bot`,
+    `${tower}_fort`
+  ];
+}
+
+/**
+ * Reads team, lane and tier from a GSI building name; null for anything that
+ * isn't a tower, barracks or ancient
+ */
+export function parseBuildingName(name: string): BuildingInfo | null {
+  const tower = name.match(TOWER_PATTERN);
+  if (tower) {
+    const lane = tower[3] as BuildingLane;
+    const tier = Number(tower[2]);
+    return {
+      kind: 'tower',
+      team: toTeam(tower[1]),
+      lane,
+      tier,
+      label: tier === 4 ? `T4 ${LANE_NAMES[lane]}` : `${LANE_NAMES[lane]} T${tier}`
+    };
+  }
+
+  const barracks = name.match(BARRACKS_PATTERN);
+  if (barracks) {
+    const lane = barracks[3] as BuildingLane;
+    return {
+      kind: 'barracks',
+      team: toTeam(barracks[1]),
+      lane,
+      label: `${LANE_NAMES[lane]} ${barracks[2] === 'melee' ? 'Melee' : 'Ranged'}`
+    };
+  }
+
+  const ancient = name.match(ANCIENT_PATTERN);
+  if (ancient) {
+    return { kind: 'ancient', team: toTeam(ancient[1]), label: 'Ancient' };
+  }
+
+  return null;
+}
+
+/**
+ * Merges the latest GSI buildings into the known structures. Structures that
+ * drop out of the report or hit 0 health are marked destroyed at clockTime.
+ */
+export function updateBuildings(
+  known: Map<string, BuildingStatus>,
+  buildings: GSIBuilding[],
+  clockTime: number | null
+): { structures: Map<string, BuildingStatus>; destroyed: BuildingStatus[] } {
+  const structures = new Map(known);
+  const destroyed: BuildingStatus[] = [];
+  const reported = new Set<string>();
+  const reportedTeams = new Set(buildings.map(b => b.team)); // Only these can have lost a structure
+
+  buildings.forEach(building => {
+    const info = parseBuildingName(building.name);
+    if (!info) return;
+    reported.add(building.name);
+
+    const previous = known.get(building.name);
+    const isDown = building.health <= 0;
+    const fellNow = isDown && !!previous && !previous.isDestroyed;
+    const status: BuildingStatus = {
+      ...info,
+      name: building.name,
+      health: building.health,
+      maxHealth: building.max_health,
+      isDestroyed: isDown,
+      destroyedAt: fellNow ? clockTime : isDown ? previous?.destroyedAt ?? null : null
+    };
+    structures.set(building.name, status);
+    if (fellNow) {
+      destroyed.push(status);
+    }
+  });
+
+  // Missing structures of a reported team are gone. Ones never seen standing
+  // fell before tracking started, so they are marked without a time
+  reportedTeams.forEach(team => {
+    getTeamBuildingNames(team).forEach(name => {
+      const status = known.get(name);
+      if (reported.has(name) || status?.isDestroyed) return;
+
+      const info = parseBuildingName(name)!;
+      const fallen: BuildingStatus = {
+        ...info,
+        name,
+        health: 0,
+        maxHealth: status?.maxHealth ?? 0,
+        isDestroyed: true,
+        destroyedAt: status ? clockTime : null
+      };
+      structures.set(name, fallen);
+      if (status) destroyed.push(fallen);
+    });
+  });
+
+  return { structures, destroyed };
+}
+
+// A team's glyph comes off cooldown when it loses a tier 1 tower
+export const refreshesGlyph = (building: BuildingInfo) => building.kind === 'tower' && building.tier === 1;
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import type { GSIAbility, GSIItem } from '@/types/gsi';
+import {
+  advanceCooldowns,
+  DEFAULT_TRACKED_ITEMS,
+  getCooldownLabel,
+  getCooldownSources,
+  getDefaultTrackedNames,
+  type ActiveCooldown,
+  type CooldownSource
+} from './cooldownTracking';
+
+const ability = (name: string, overrides: Partial<GSIAbility> = {}): GSIAbility => ({
+  slot: 'ability0',
+  name,
+  level: 1,
+  can_cast: true,
+  passive: false,
+  ability_active: true,
+  cooldown: 0,
+  ultimate: false,
+  ...overrides
+});
+
+const item = (slot: string, name: string, cooldown?: number, passive = false): GSIItem => ({ slot, name, cooldown, passive });
+
+describe('getCooldownLabel', () => {
+  it('drops the hero prefix from abilities and the item prefix from items', () => {
+    expect(getCooldownLabel('axe_culling_blade', 'npc_dota_hero_axe')).toBe('Culling Blade');
+    expect(getCooldownLabel('item_blink')).toBe('Blink');
+  });
+
+  it('uses display names where the internal name differs', () => {
+    expect(getCooldownLabel('item_black_king_bar')).toBe('Black King Bar');
+    expect(getCooldownLabel('item_sphere')).toBe("Linken's Sphere");
+  });
+
+  it('keeps abilities without the hero prefix whole', () => {
+    expect(getCooldownLabel('roshan_spell_block', 'npc_dota_hero_axe')).toBe('Roshan Spell Block');
+  });
+});
+
+describe('getCooldownSources', () => {
+  it('lists learned active abilities and usable items', () => {
+    const sources = getCooldownSources(
+      [
+        ability('axe_berserkers_call', { cooldown: 12.4 }),
+        ability('axe_counter_helix', { passive: true }),
+        ability('axe_culling_blade', { level: 0, ultimate: true })
+      ],
+      [
+        item('slot0', 'item_blink', 8),
+        item('stash0', 'item_black_king_bar'),
+        item('slot1', 'item_vanguard', undefined, true),
+        item('teleport0', 'item_tpscroll', 40)
+      ],
+      'npc_dota_hero_axe'
+    );
+
+    expect(sources).toEqual([
+      { name: 'axe_berserkers_call', kind: 'ability', label: 'Berserkers Call', cooldown: 12.4 },
+      { name: 'item_blink', kind: 'item', label: 'Blink', cooldown: 8 },
+      { name: 'item_tpscroll', kind: 'item', label: 'Town Portal', cooldown: 40 }
+    ]);
+  });
+});
+
+describe('getDefaultTrackedNames', () => {
+  it('tracks ultimates and the long item cooldowns', () => {
+    const names = getDefaultTrackedNames([ability('axe_berserkers_call'), ability('axe_culling_blade', { ultimate: true })]);
+    expect(names).toEqual(['axe_culling_blade', ...DEFAULT_TRACKED_ITEMS]);
+  });
+});
+
+describe('advanceCooldowns', () => {
+  const bkb = (cooldown: number): CooldownSource => ({ name: 'item_black_king_bar', kind: 'item', label: 'Black King Bar', cooldown });
+  const tracked = ['item_black_king_bar'];
+
+  const start = (): Map<string, ActiveCooldown> => advanceCooldowns(new Map(), [bkb(95)], tracked).active;
+
+  it('follows tracked cooldowns, keeping the longest seen as the duration', () => {
+    const { active, ready } = advanceCooldowns(start(), [bkb(80.5)], tracked);
+    expect(ready).toEqual([]);
+    expect(active.get('item_black_king_bar')).toMatchObject({ cooldown: 80.5, duration: 95 });
+  });
+
+  it('reports a tracked cooldown as ready when it ends while held', () => {
+    const { active, ready } = advanceCooldowns(start(), [bkb(0)], tracked);
+    expect(ready.map(cooldown => cooldown.name)).toEqual(['item_black_king_bar']);
+    expect(active.size).toBe(0);
+  });
+
+  it('drops cooldowns that are sold or untracked without reporting them', () => {
+    expect(advanceCooldowns(start(), [], tracked)).toEqual({ active: new Map(), ready: [] });
+    expect(advanceCooldowns(start(), [bkb(0)], [])).toEqual({ active: new Map(), ready: [] });
+  });
+
+  it('ignores sources that are not tracked', () => {
+    const blink: CooldownSource = { name: 'item_blink', kind: 'item', label: 'Blink', cooldown: 12 };
+    expect(advanceCooldowns(new Map(), [blink], tracked).active.size).toBe(0);
+  });
+});
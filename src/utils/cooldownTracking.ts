@@ -0,0 +1,140 @@
+// Which of the local hero's abilities and items to show as cooldown timers
+
+import type { GSIAbility, GSIItem } from '@/types/gsi';
+import { loadSettings, saveSettings } from './storage';
+
+// Long item cooldowns worth tracking for every hero unless the player picks otherwise
+export const DEFAULT_TRACKED_ITEMS = [
+  'item_black_king_bar',
+  'item_refresher',
+  'item_aeon_disk',
+  'item_sphere',
+  'item_guardian_greaves'
+];
+
+// Display names that can't be derived from the internal name
+const DISPLAY_NAMES: Record<string, string> = {
+  item_black_king_bar: 'Black King Bar',
+  item_sphere: "Linken's Sphere",
+  item_refresher: 'Refresher Orb',
+  item_tpscroll: 'Town Portal'
+};
+
+// Slots whose items can be used; the stash is out of reach
+const USABLE_ITEM_SLOT = /^(slot|neutral|teleport)\d+$/;
+
+export interface CooldownSource {
+  name: string; // Internal ability or item name
+  kind: 'ability' | 'item';
+  label: string;
+  cooldown: number; // Seconds remaining
+}
+
+export interface ActiveCooldown extends CooldownSource {
+  duration: number; // Longest cooldown seen since it started
+}
+
+/**
+ * Human readable name for an ability or item, dropping the hero prefix of abilities
+ */
+export function getCooldownLabel(name: string, heroName?: string): string {
+  if (DISPLAY_NAMES[name]) return DISPLAY_NAMES[name];
+
+  const heroPrefix = heroName ? `${heroName.replace(/^npc_dota_hero_/, '')}_` : '';
+  const base = name.startsWith('item_')
+    ? name.slice('item_'.length)
+    : heroPrefix && name.startsWith(heroPrefix) ? name.slice(heroPrefix.length) : name;
+
+  return base
+    .split('_')
+    .filter(word => word.length > 0)
+    .map(word => word[0].toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/**
+ * Abilities and items of the local hero that have a cooldown to track
+ */
+export function getCooldownSources(abilities: GSIAbility[], items: GSIItem[], heroName?: string): CooldownSource[] {
+  const fromAbilities = abilities
+    .filter(ability => !ability.passive && ability.level > 0)
+    .map(ability => ({
+      name: ability.name,
+      kind: 'ability' as const,
+      label: getCooldownLabel(ability.name, heroName),
+      cooldown: ability.cooldown
+    }));
+
+  const fromItems = items
+    .filter(item => !item.passive && USABLE_ITEM_SLOT.test(item.slot))
+    .map(item => ({
+      name: item.name,
+      kind: 'item' as const,
+      label: getCooldownLabel(item.name),
+      cooldown: item.cooldown ?? 0
+    }));
+
+  return [...fromAbilities, ...fromItems];
+}
+
+/**
+ * Names tracked when the player hasn't chosen for this hero: ultimates and long item cooldowns
+ */
+export function getDefaultTrackedNames(abilities: GSIAbility[]): string[] {
+  return [
+    ...abilities.filter(ability => ability.ultimate).map(ability => ability.name),
+    ...DEFAULT_TRACKED_ITEMS
+  ];
+}
+
+/**
+ * Moves the tracked cooldowns on to the latest sources. Anything tracked that
+ * left cooldown while still held is ready again; one that was sold, dropped or
+ * untracked just stops.
+ */
+export function advanceCooldowns(
+  active: ReadonlyMap<string, ActiveCooldown>,
+  sources: CooldownSource[],
+  trackedNames: readonly string[]
+): { active: Map<string, ActiveCooldown>; ready: ActiveCooldown[] } {
+  const next = new Map<string, ActiveCooldown>();
+  const ready: ActiveCooldown[] = [];
+
+  active.forEach((cooldown, name) => {
+    const source = sources.find(s => s.name === name);
+    if (trackedNames.includes(name) && source && source.cooldown <= 0) {
+      ready.push(cooldown);
+    }
+  });
+
+  sources
+    .filter(source => source.cooldown > 0 && trackedNames.includes(source.name))
+    .forEach(source => {
+      const duration = Math.max(active.get(source.name)?.duration ?? 0, Math.ceil(source.cooldown));
+      next.set(source.name, { ...source, duration });
+    });
+
+  return { active: next, ready };
+}
+
+const COOLDOWN_SETTINGS_KEY = 'cooldown-tracking';
+const COOLDOWN_SCHEMA_VERSION = 1;
+
+// Tracked ability and item names per hero, keyed by the internal hero name
+export type TrackedCooldowns = Record<string, string[]>;
+
+function isTrackedCooldowns(value: unknown): value is TrackedCooldowns {
+  return !!value && typeof value === 'object' && !Array.isArray(value) &&
+    Object.values(value).every(names => Array.isArray(names) && names.every(name => typeof name === 'string'));
+}
+
+export async function loadTrackedCooldowns(): Promise<TrackedCooldowns | null> {
+  return loadSettings(COOLDOWN_SETTINGS_KEY, {
+    version: COOLDOWN_SCHEMA_VERSION,
+    validate: isTrackedCooldowns
+  });
+}
+
+export async function saveTrackedCooldowns(tracked: TrackedCooldowns): Promise<boolean> {
+  return saveSettings(COOLDOWN_SETTINGS_KEY, COOLDOWN_SCHEMA_VERSION, tracked);
+}
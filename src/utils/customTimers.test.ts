@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { toCustomTimer, validateCustomTimer, type CustomTimerDefinition } from './customTimers';
+
+const definition: CustomTimerDefinition = {
+  id: 'smoke',
+  name: 'Smoke',
+  duration: 420,
+  repeat: false,
+  alertEvent: 'timer-alert',
+  color: 'accent'
+};
+
+describe('validateCustomTimer', () => {
+  it('accepts a valid definition', () => {
+    expect(validateCustomTimer(definition, [])).toBeNull();
+    expect(validateCustomTimer({ ...definition, minDuration: 300, maxDuration: 420, hotkey: 'S' }, [])).toBeNull();
+  });
+
+  it('requires a name of at most 40 characters', () => {
+    expect(validateCustomTimer({ ...definition, name: '   ' }, [])).toBe('Name is required');
+    expect(validateCustomTimer({ ...definition, name: 'x'.repeat(41) }, [])).toBe('Name must be at most 40 characters');
+  });
+
+  it('requires a whole duration of up to an hour', () => {
+    const error = 'Duration must be between 0:01 and 60:00';
+    expect(validateCustomTimer({ ...definition, duration: 0 }, [])).toBe(error);
+    expect(validateCustomTimer({ ...definition, duration: 90.5 }, [])).toBe(error);
+    expect(validateCustomTimer({ ...definition, duration: 3601 }, [])).toBe(error);
+    expect(validateCustomTimer({ ...definition, duration: 3600 }, [])).toBeNull();
+  });
+
+  it('requires both ends of a window inside the duration', () => {
+    expect(validateCustomTimer({ ...definition, minDuration: 300 }, [])).toBe('Set both ends of the window, or neither');
+
+    const error = 'Window must start before it ends and end by the duration';
+    expect(validateCustomTimer({ ...definition, minDuration: 400, maxDuration: 300 }, [])).toBe(error);
+    expect(validateCustomTimer({ ...definition, minDuration: 0, maxDuration: 300 }, [])).toBe(error);
+    expect(validateCustomTimer({ ...definition, minDuration: 300, maxDuration: 480 }, [])).toBe(error);
+  });
+
+  it('requires a single letter or digit hotkey that no other timer uses', () => {
+    expect(validateCustomTimer({ ...definition, hotkey: 's' }, [])).toBe('Hotkey must be a single letter or digit');
+    expect(validateCustomTimer({ ...definition, hotkey: 'F1' }, [])).toBe('Hotkey must be a single letter or digit');
+
+    const other = { ...definition, id: 'other', hotkey: 'S' };
+    expect(validateCustomTimer({ ...definition, hotkey: 'S' }, [other])).toBe('Ctrl+Shift+S is already used');
+  });
+
+  it('rejects hotkeys the browser keeps for itself', () => {
+    expect(validateCustomTimer({ ...definition, hotkey: 'W' }, [])).toBe('Ctrl+Shift+W is reserved by the browser');
+    expect(validateCustomTimer({ ...definition, hotkey: 'I' }, [])).toBe('Ctrl+Shift+I is reserved by the browser');
+  });
+
+  it('lets a timer keep its own hotkey when edited', () => {
+    const saved = { ...definition, hotkey: 'S' };
+    expect(validateCustomTimer({ ...saved, name: 'Smoke of Deceit' }, [saved])).toBeNull();
+  });
+});
+
+describe('toCustomTimer', () => {
+  it('prefixes the id and shows the hotkey', () => {
+    expect(toCustomTimer({ ...definition, hotkey: '7' })).toMatchObject({
+      id: 'custom-smoke',
+      type: 'custom',
+      duration: 420,
+      location: 'Ctrl+Shift+7'
+    });
+    expect(toCustomTimer(definition).location).toBeUndefined();
+  });
+});
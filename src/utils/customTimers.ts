@@ -0,0 +1,142 @@
+// User-defined timers, stored as named profiles
+
+import type { Timer } from '@/components/TimerCard';
+import type { NotificationEvent } from '@/hooks/useAudioBank';
+import { loadSettings, saveSettings } from './storage';
+
+export type CustomTimerColor = 'primary' | 'accent' | 'rune' | 'roshan' | 'neutral' | 'tormentor' | 'ward';
+
+export interface CustomTimerDefinition {
+  id: string;
+  name: string;
+  duration: number; // Seconds
+  minDuration?: number; // Start of an optional window, like Roshan's
+  maxDuration?: number;
+  repeat: boolean; // Starts over when it completes
+  alertEvent: NotificationEvent;
+  color: CustomTimerColor;
+  hotkey?: string; // Single letter or digit, pressed with Ctrl+Shift
+}
+
+export interface CustomTimerProfiles {
+  activeProfile: string;
+  profiles: Record<string, CustomTimerDefinition[]>; // Timers in display order
+}
+
+// Full class names so Tailwind keeps them in the build
+export const CUSTOM_TIMER_COLORS: Record<CustomTimerColor, { label: string; className: string; swatch: string }> = {
+  primary: { label: 'Gold', className: 'border-primary/60', swatch: 'bg-primary' },
+  accent: { label: 'Amber', className: 'border-accent/60', swatch: 'bg-accent' },
+  rune: { label: 'Blue', className: 'border-rune/60', swatch: 'bg-rune' },
+  roshan: { label: 'Red', className: 'border-roshan/60', swatch: 'bg-roshan' },
+  neutral: { label: 'Green', className: 'border-neutral/60', swatch: 'bg-neutral' },
+  tormentor: { label: 'Purple', className: 'border-tormentor/60', swatch: 'bg-tormentor' },
+  ward: { label: 'Yellow', className: 'border-ward/60', swatch: 'bg-ward' }
+};
+
+export const DEFAULT_PROFILE = 'Default';
+export const CUSTOM_TIMER_PREFIX = 'custom-';
+export const MAX_CUSTOM_DURATION = 3600;
+const MAX_NAME_LENGTH = 40;
+const HOTKEY_PATTERN = /^[A-Z0-9]$/;
+// Ctrl+Shift combinations the browser handles before the page can prevent them:
+// close window, reopen tab, incognito window, quit and the devtools
+const RESERVED_HOTKEYS = ['W', 'T', 'N', 'Q', 'I', 'J', 'C'];
+
+export const isCustomTimerId = (id: string) => id.startsWith(CUSTOM_TIMER_PREFIX);
+
+export const createDefaultProfiles = (): CustomTimerProfiles => ({
+  activeProfile: DEFAULT_PROFILE,
+  profiles: { [DEFAULT_PROFILE]: [] }
+});
+
+/**
+ * Problem with a definition that would stop it from saving, or null when it's valid
+ */
+export function validateCustomTimer(definition: CustomTimerDefinition, others: CustomTimerDefinition[]): string | null {
+  const name = definition.name.trim();
+  if (!name) return 'Name is required';
+  if (name.length > MAX_NAME_LENGTH) return `Name must be at most ${MAX_NAME_LENGTH} characters`;
+  if (!Number.isInteger(definition.duration) || definition.duration <= 0 || definition.duration > MAX_CUSTOM_DURATION) {
+    return 'Duration must be between 0:01 and 60:00';
+  }
+
+  const { minDuration, maxDuration } = definition;
+  if ((minDuration === undefined) !== (maxDuration === undefined)) {
+    return 'Set both ends of the window, or neither';
+  }
+  if (minDuration !== undefined && maxDuration !== undefined &&
+      (!Number.isInteger(minDuration) || !Number.isInteger(maxDuration) ||
+       minDuration <= 0 || minDuration >= maxDuration || maxDuration > definition.duration)) {
+    return 'Window must start before it ends and end by the duration';
+  }
+
+  if (definition.hotkey !== undefined) {
+    if (!HOTKEY_PATTERN.test(definition.hotkey)) return 'Hotkey must be a single letter or digit';
+    if (RESERVED_HOTKEYS.includes(definition.hotkey)) {
+      return `Ctrl+Shift+${definition.hotkey} is reserved by the browser`;
+    }
+    if (others.some(other => other.id !== definition.id && other.hotkey === definition.hotkey)) {
+      return `Ctrl+Shift+${definition.hotkey} is already used`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Timer shown in the grid for a definition
+ */
+export function toCustomTimer(definition: CustomTimerDefinition): Timer {
+  return {
+    id: `${CUSTOM_TIMER_PREFIX}${definition.id}`,
+    name: definition.name,
+    duration: definition.duration,
+    minDuration: definition.minDuration,
+    maxDuration: definition.maxDuration,
+    type: 'custom',
+    audioAlert: true,
+    repeat: definition.repeat,
+    alertEvent: definition.alertEvent,
+    location: definition.hotkey ? `Ctrl+Shift+${definition.hotkey}` : undefined
+  };
+}
+
+const CUSTOM_TIMERS_SETTINGS_KEY = 'custom-timers';
+const CUSTOM_TIMERS_SCHEMA_VERSION = 1;
+
+function isCustomTimerDefinition(value: unknown): value is CustomTimerDefinition {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const v = value as Record<string, unknown>;
+  return typeof v.id === 'string' &&
+    typeof v.name === 'string' &&
+    typeof v.duration === 'number' &&
+    (v.minDuration === undefined || typeof v.minDuration === 'number') &&
+    (v.maxDuration === undefined || typeof v.maxDuration === 'number') &&
+    typeof v.repeat === 'boolean' &&
+    typeof v.alertEvent === 'string' &&
+    typeof v.color === 'string' && v.color in CUSTOM_TIMER_COLORS &&
+    (v.hotkey === undefined || (typeof v.hotkey === 'string' && HOTKEY_PATTERN.test(v.hotkey)));
+}
+
+function isCustomTimerProfiles(value: unknown): value is CustomTimerProfiles {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const v = value as Record<string, unknown>;
+  if (typeof v.activeProfile !== 'string' || !v.profiles || typeof v.profiles !== 'object' || Array.isArray(v.profiles)) {
+    return false;
+  }
+  const profiles = v.profiles as Record<string, unknown>;
+  return v.activeProfile in profiles &&
+    Object.values(profiles).every(timers => Array.isArray(timers) && timers.every(isCustomTimerDefinition));
+}
+
+export async function loadCustomTimers(): Promise<CustomTimerProfiles | null> {
+  return loadSettings(CUSTOM_TIMERS_SETTINGS_KEY, {
+    version: CUSTOM_TIMERS_SCHEMA_VERSION,
+    validate: isCustomTimerProfiles
+  });
+}
+
+export async function saveCustomTimers(profiles: CustomTimerProfiles): Promise<boolean> {
+  return saveSettings(CUSTOM_TIMERS_SETTINGS_KEY, CUSTOM_TIMERS_SCHEMA_VERSION, profiles);
+}
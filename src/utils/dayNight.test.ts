@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { detectDayNightOverride, getDayNightPhase } from './dayNight';
+
+describe('getDayNightPhase', () => {
+  it('starts with day at the horn and alternates every five minutes', () => {
+    expect(getDayNightPhase(0)).toEqual({ isDay: true, remaining: 300 });
+    expect(getDayNightPhase(299.5)).toEqual({ isDay: true, remaining: 1 });
+    expect(getDayNightPhase(300)).toEqual({ isDay: false, remaining: 300 });
+    expect(getDayNightPhase(545)).toEqual({ isDay: false, remaining: 55 });
+    expect(getDayNightPhase(600)).toEqual({ isDay: true, remaining: 300 });
+  });
+
+  it('treats pre-game as the start of the first day', () => {
+    expect(getDayNightPhase(-90)).toEqual({ isDay: true, remaining: 300 });
+  });
+});
+
+describe('detectDayNightOverride', () => {
+  const day = 100;
+  const night = 400;
+
+  it('finds nothing when the map follows the natural cycle', () => {
+    expect(detectDayNightOverride(day, true)).toBeNull();
+    expect(detectDayNightOverride(night, false, false)).toBeNull();
+  });
+
+  it('finds nothing without the daytime flag', () => {
+    expect(detectDayNightOverride(day)).toBeNull();
+  });
+
+  it('reads night during the day as Night Stalker', () => {
+    expect(detectDayNightOverride(day, false)).toBe('nightstalker');
+    expect(detectDayNightOverride(night, false, true)).toBe('nightstalker');
+  });
+
+  it('reads day during the night as Phoenix', () => {
+    expect(detectDayNightOverride(night, true)).toBe('phoenix');
+  });
+
+  it('judges flags by the clock time of their own update', () => {
+    // The last update came just before nightfall; the running clock has moved past it
+    expect(detectDayNightOverride(299.6, true)).toBeNull();
+    expect(detectDayNightOverride(599.6, false)).toBeNull();
+  });
+});
@@ -0,0 +1,60 @@
+// Day/night cycle on the game clock and the abilities that override it
+
+import type { Timer } from '@/components/TimerCard';
+
+// Day and night each last this long, starting with day at the horn
+export const DAY_NIGHT_PHASE = 300;
+
+// Seconds of notice before night falls
+export const NIGHT_WARNING_LEAD = 30;
+
+export type DayNightOverride = 'nightstalker' | 'phoenix';
+
+export const OVERRIDE_NAMES: Record<DayNightOverride, string> = {
+  nightstalker: "Night Stalker's Dark Ascension",
+  phoenix: "Phoenix's Supernova"
+};
+
+// Grid card for the cycle; it follows the game clock and has no controls
+export const DAY_NIGHT_TIMER: Timer = {
+  id: 'day-night',
+  name: 'Day/Night',
+  duration: DAY_NIGHT_PHASE,
+  type: 'daynight',
+  audioAlert: true
+};
+
+export interface DayNightPhase {
+  isDay: boolean;
+  remaining: number; // Seconds until the natural cycle changes phase
+}
+
+/**
+ * Natural phase at a game clock time. Everything before the horn is day.
+ */
+export function getDayNightPhase(clockTime: number): DayNightPhase {
+  const time = Math.max(0, clockTime);
+  const phase = Math.floor(time / DAY_NIGHT_PHASE);
+  return {
+    isDay: phase % 2 === 0,
+    remaining: Math.ceil((phase + 1) * DAY_NIGHT_PHASE - time)
+  };
+}
+
+/**
+ * Ability holding the map out of its natural phase, from the GSI daytime and
+ * nightstalker_night flags. clockTime is the clock_time of the GSI update the
+ * flags came from: the running clock moves on between updates, and comparing
+ * against it would report an override just after every phase change. Night
+ * during the day is Night Stalker even before the game sets his flag; day
+ * during the night is Phoenix's Supernova.
+ */
+export function detectDayNightOverride(
+  clockTime: number,
+  daytime?: boolean,
+  nightstalkerNight?: boolean
+): DayNightOverride | null {
+  if (nightstalkerNight) return 'nightstalker';
+  if (daytime === undefined || daytime === getDayNightPhase(clockTime).isDay) return null;
+  return daytime ? 'phoenix' : 'nightstalker';
+}
@@ -0,0 +1,94 @@
+// Bundled cooldown dataset for manually tracking enemy ultimates and items
+
+import type { Timer } from '@/components/TimerCard';
+
+export interface TrackedAbility {
+  id: string;
+  name: string;
+  cooldowns: number[]; // Seconds per level, first level first
+}
+
+export interface EnemyHero {
+  id: string;
+  name: string;
+  abilities: TrackedAbility[];
+}
+
+// Big ultimates worth tracking by hand; values as of patch 7.35
+export const ENEMY_HEROES: EnemyHero[] = [
+  { id: 'abaddon', name: 'Abaddon', abilities: [{ id: 'borrowed-time', name: 'Borrowed Time', cooldowns: [90, 75, 60] }] },
+  { id: 'disruptor', name: 'Disruptor', abilities: [{ id: 'static-storm', name: 'Static Storm', cooldowns: [90, 80, 70] }] },
+  { id: 'earthshaker', name: 'Earthshaker', abilities: [{ id: 'echo-slam', name: 'Echo Slam', cooldowns: [130, 120, 110] }] },
+  { id: 'enigma', name: 'Enigma', abilities: [{ id: 'black-hole', name: 'Black Hole', cooldowns: [180, 170, 160] }] },
+  { id: 'faceless-void', name: 'Faceless Void', abilities: [{ id: 'chronosphere', name: 'Chronosphere', cooldowns: [160, 150, 140] }] },
+  { id: 'juggernaut', name: 'Juggernaut', abilities: [{ id: 'omnislash', name: 'Omnislash', cooldowns: [120, 110, 100] }] },
+  { id: 'magnus', name: 'Magnus', abilities: [{ id: 'reverse-polarity', name: 'Reverse Polarity', cooldowns: [130, 120, 110] }] },
+  { id: 'mars', name: 'Mars', abilities: [{ id: 'arena-of-blood', name: 'Arena of Blood', cooldowns: [90, 80, 70] }] },
+  { id: 'necrophos', name: 'Necrophos', abilities: [{ id: 'reapers-scythe', name: "Reaper's Scythe", cooldowns: [100, 85, 70] }] },
+  { id: 'omniknight', name: 'Omniknight', abilities: [{ id: 'guardian-angel', name: 'Guardian Angel', cooldowns: [160, 150, 140] }] },
+  { id: 'silencer', name: 'Silencer', abilities: [{ id: 'global-silence', name: 'Global Silence', cooldowns: [130, 115, 100] }] },
+  { id: 'tidehunter', name: 'Tidehunter', abilities: [{ id: 'ravage', name: 'Ravage', cooldowns: [150, 140, 130] }] },
+  { id: 'treant', name: 'Treant Protector', abilities: [{ id: 'overgrowth', name: 'Overgrowth', cooldowns: [100, 100, 100] }] },
+  { id: 'warlock', name: 'Warlock', abilities: [{ id: 'chaotic-offering', name: 'Chaotic Offering', cooldowns: [170, 170, 170] }] },
+  { id: 'wraith-king', name: 'Wraith King', abilities: [{ id: 'reincarnation', name: 'Reincarnation', cooldowns: [180, 160, 140] }] },
+  { id: 'zeus', name: 'Zeus', abilities: [{ id: 'thundergods-wrath', name: "Thundergod's Wrath", cooldowns: [130, 125, 120] }] }
+];
+
+// Items any enemy hero can carry
+export const ENEMY_ITEMS: TrackedAbility[] = [
+  { id: 'black-king-bar', name: 'Black King Bar', cooldowns: [95] },
+  { id: 'blink-dagger', name: 'Blink Dagger', cooldowns: [15] },
+  { id: 'aeon-disk', name: 'Aeon Disk', cooldowns: [165] },
+  { id: 'refresher-orb', name: 'Refresher Orb', cooldowns: [180] },
+  { id: 'linkens-sphere', name: "Linken's Sphere", cooldowns: [14] },
+  { id: 'manta-style', name: 'Manta Style', cooldowns: [45] },
+  { id: 'eul-scepter', name: "Eul's Scepter", cooldowns: [23] },
+  { id: 'force-staff', name: 'Force Staff', cooldowns: [19] },
+  { id: 'lotus-orb', name: 'Lotus Orb', cooldowns: [15] },
+  { id: 'scythe-of-vyse', name: 'Scythe of Vyse', cooldowns: [20] },
+  { id: 'satanic', name: 'Satanic', cooldowns: [30] },
+  { id: 'glimmer-cape', name: 'Glimmer Cape', cooldowns: [14] }
+];
+
+export const OCTARINE_REDUCTION = 0.25;
+
+// Prefix of timer ids created by the enemy cooldown tracker
+export const ENEMY_TIMER_PREFIX = 'enemy-';
+
+export function isEnemyTimerId(id: string): boolean {
+  return id.startsWith(ENEMY_TIMER_PREFIX);
+}
+
+/**
+ * Abilities and items that can be tracked for an enemy hero
+ */
+export function getEnemyOptions(heroId: string): TrackedAbility[] {
+  const hero = ENEMY_HEROES.find(h => h.id === heroId);
+  return [...(hero?.abilities ?? []), ...ENEMY_ITEMS];
+}
+
+/**
+ * Cooldown in seconds at the given level (1-based), reduced by Octarine Core when held
+ */
+export function getEnemyCooldown(ability: TrackedAbility, level: number, hasOctarine: boolean): number {
+  const index = Math.min(Math.max(level, 1), ability.cooldowns.length) - 1;
+  const base = ability.cooldowns[index];
+  return Math.round(hasOctarine ? base * (1 - OCTARINE_REDUCTION) : base);
+}
+
+/**
+ * Timer for an enemy cooldown; the same hero and ability always map to the same id
+ */
+export function createEnemyTimer(hero: EnemyHero, ability: TrackedAbility, level: number, hasOctarine: boolean): Timer {
+  return {
+    id: `${ENEMY_TIMER_PREFIX}${hero.id}-${ability.id}`,
+    name: `${hero.name} ${ability.name}`,
+    duration: getEnemyCooldown(ability, level, hasOctarine),
+    type: 'custom',
+    audioAlert: true,
+    location: [
+      ability.cooldowns.length > 1 ? `Level ${level}` : null,
+      hasOctarine ? 'Octarine Core' : null
+    ].filter(Boolean).join(' · ') || undefined
+  };
+}
@@ -0,0 +1,95 @@
+// Game rules: derive timer durations and locations from game mode and side
+
+import type { Timer } from '@/components/TimerCard';
+import type { GameState } from '@/types/gsi';
+
+export type GameSide = 'radiant' | 'dire';
+export type GameLane = 'safe' | 'mid' | 'off';
+export type GameMode = 'allpick' | 'turbo';
+
+export interface GameRules {
+  mode: GameMode;
+  side: GameSide;
+}
+
+interface TimingRule {
+  scale?: number; // Multiplier applied to the configured time
+  time?: number; // Absolute replacement in seconds
+}
+
+// Turbo overrides keyed by timing event id; events not listed keep their time
+const TURBO_RULES: Record<string, TimingRule> = {
+  'roshan-respawn': { scale: 0.5 },
+  'lotus-pool': { scale: 0.5 },
+  'wisdom-shrine': { scale: 0.5 },
+  'tormentor': { scale: 0.5 },
+  'observer-ward': { scale: 0.5 },
+  'sentry-ward': { scale: 0.5 },
+  'bounty-rune': { time: 180 }
+};
+
+const MODE_RULES: Record<GameMode, Record<string, TimingRule>> = {
+  allpick: {},
+  turbo: TURBO_RULES
+};
+
+// Map objectives that exist once per side, keyed by timing event id
+const SIDE_LOCATIONS: Record<string, Record<GameSide, string>> = {
+  'lotus-pool': { radiant: 'Radiant lotus pool', dire: 'Dire lotus pool' },
+  'wisdom-shrine': { radiant: 'Radiant jungle shrine', dire: 'Dire jungle shrine' },
+  'bounty-rune': { radiant: 'Radiant jungle bounty', dire: 'Dire jungle bounty' }
+};
+
+/**
+ * Applies the game mode rules to a configured event time (in seconds)
+ */
+export function applyModeToTime(eventId: string, time: number, mode: GameMode): number {
+  const rule = MODE_RULES[mode][eventId];
+  if (!rule) return time;
+  if (rule.time !== undefined) return rule.time;
+  return Math.round(time * (rule.scale ?? 1));
+}
+
+const SIDE_NAMES: Record<GameSide, string> = {
+  radiant: 'Radiant',
+  dire: 'Dire'
+};
+
+/**
+ * Returns the timer adjusted for the current game mode and side
+ */
+export function applyGameRules(timer: Timer, rules: GameRules): Timer {
+  if (!timer.timingEventId) return timer;
+
+  // Per-side objectives are labelled relative to the player's team
+  const sideLocation = timer.side
+    ? `${SIDE_NAMES[timer.side]} side (${timer.side === rules.side ? 'yours' : 'enemy'})`
+    : undefined;
+
+  const duration = applyModeToTime(timer.timingEventId, timer.duration, rules.mode);
+  const ratio = timer.duration > 0 ? duration / timer.duration : 1;
+
+  return {
+    ...timer,
+    duration,
+    minDuration: timer.minDuration !== undefined ? Math.round(timer.minDuration * ratio) : undefined,
+    maxDuration: timer.maxDuration !== undefined ? Math.round(timer.maxDuration * ratio) : undefined,
+    location: sideLocation ?? SIDE_LOCATIONS[timer.timingEventId]?.[rules.side] ?? timer.location
+  };
+}
+
+/**
+ * Detects the game mode from GSI map data, or null when it can't be told
+ */
+export function detectGameMode(gameState: GameState | null): GameMode | null {
+  if (!gameState?.matchid) return null;
+
+  const hints = [gameState.game_mode, gameState.customgamename]
+    .filter((hint): hint is string => typeof hint === 'string' && hint.length > 0)
+    .map(hint => hint.toLowerCase());
+
+  if (hints.some(hint => hint.includes('turbo'))) return 'turbo';
+  // A regular matchmaking game reports its mode without a custom game name
+  if (gameState.game_mode && !gameState.customgamename) return 'allpick';
+  return null;
+}
@@ -0,0 +1,36 @@
+// Dota 2 Game State Integration config for the local GSI server
+
+export const GSI_CONFIG_FILENAME = 'gamestate_integration_sentineltimer.cfg';
+
+// Shown in place of the token where the app can't read it (the web build)
+export const GSI_AUTH_TOKEN_PLACEHOLDER = '<your auth token>';
+
+/**
+ * Contents of the cfg file. Dota sends the auth token with every update and
+ * the server rejects updates that don't carry it.
+ */
+export function createGSIConfig(authToken: string | null, port: number = 3000): string {
+  return `"dota2-gsi Configuration"
+{
+    "uri"               "http://localhost:${port}/gamestate"
+    "timeout"           "5.0"
+    "buffer"            "0.1"
+    "throttle"          "0.5"
+    "heartbeat"         "30.0"
+    "auth"
+    {
+        "token"         "${authToken ?? GSI_AUTH_TOKEN_PLACEHOLDER}"
+    }
+    "data"
+    {
+        "buildings"     "1"
+        "provider"      "1"
+        "map"           "1"
+        "player"        "1"
+        "hero"          "1"
+        "abilities"     "1"
+        "items"         "1"
+        "events"        "1"
+    }
+}`;
+}
@@ -0,0 +1,39 @@
+// Builds the GameState exposed by the GSI hooks from sanitized GSI data
+
+import type { GameState, RawGSIData } from '@/types/gsi';
+
+/**
+ * Maps sanitized GSI data onto GameState. Older payloads put the map fields at
+ * the top level, so those are used when the map block is missing.
+ */
+export function buildGameState(data: RawGSIData): GameState {
+  const rawState = data.map?.game_state || data.game_state;
+  const gameStateValue = (rawState && typeof rawState === 'string')
+    ? rawState as GameState['game_state']
+    : 'DOTA_GAMERULES_STATE_INIT';
+
+  return {
+    clock_time: data.map?.clock_time ?? data.clock_time ?? 0,
+    game_time: data.map?.game_time ?? data.game_time ?? data.map?.clock_time ?? data.clock_time ?? 0,
+    paused: data.map?.paused ?? data.paused ?? false,
+    game_state: gameStateValue,
+    winner: data.map?.winner ?? data.winner ?? 0,
+    win_team: data.map?.win_team,
+    events: data.events ?? [],
+    roshan_state: data.map?.roshan_state,
+    roshan_state_end_seconds: data.map?.roshan_state_end_seconds,
+    glyph_cooldown: data.map?.radiant_glyph_cooldown !== undefined || data.map?.dire_glyph_cooldown !== undefined
+      ? { radiant: data.map?.radiant_glyph_cooldown, dire: data.map?.dire_glyph_cooldown }
+      : undefined,
+    daytime: data.map?.daytime,
+    nightstalker_night: data.map?.nightstalker_night,
+    matchid: data.map?.matchid,
+    customgamename: data.map?.customgamename,
+    game_mode: data.map?.game_mode,
+    player: data.player,
+    hero: data.hero,
+    abilities: data.abilities && Object.values(data.abilities),
+    items: data.items && Object.values(data.items),
+    buildings: data.buildings && [...Object.values(data.buildings.radiant ?? {}), ...Object.values(data.buildings.dire ?? {})]
+  };
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import type { GameState } from '@/types/gsi';
+import type { BuildingStatus } from './buildings';
+import { buildGameState } from './gsiGameState';
+import { createMatchSummary, getMatchSnapshot, getMatchTransitions, type MatchSnapshot } from './matchLifecycle';
+import { validateAndSanitizeGSIData } from './validation';
+
+const draft: MatchSnapshot = { phase: 'draft', matchId: '100' };
+const preGame: MatchSnapshot = { phase: 'pre-game', matchId: '100' };
+const inProgress: MatchSnapshot = { phase: 'in-progress', matchId: '100' };
+const postGame: MatchSnapshot = { phase: 'post-game', matchId: '100' };
+const disconnected: MatchSnapshot = { phase: 'disconnected', matchId: '100' };
+
+const gameState = (overrides: Partial<GameState>): GameState => ({
+  clock_time: 0,
+  game_time: 0,
+  paused: false,
+  game_state: 'DOTA_GAMERULES_STATE_GAME_IN_PROGRESS',
+  winner: 0,
+  events: [],
+  ...overrides
+});
+
+describe('getMatchSnapshot', () => {
+  it('maps game states to phases', () => {
+    expect(getMatchSnapshot(gameState({ game_state: 'DOTA_GAMERULES_STATE_STRATEGY_TIME', matchid: '100' })))
+      .toEqual({ phase: 'draft', matchId: '100' });
+    expect(getMatchSnapshot(gameState({ game_state: 'DOTA_GAMERULES_STATE_INIT' })).phase).toBe('idle');
+  });
+});
+
+describe('getMatchTransitions', () => {
+  it('starts a match at the draft and sounds the horn after pre-game', () => {
+    expect(getMatchTransitions(null, draft)).toEqual(['new-match']);
+    expect(getMatchTransitions(draft, preGame)).toEqual([]);
+    expect(getMatchTransitions(preGame, inProgress)).toEqual(['horn']);
+    expect(getMatchTransitions(inProgress, inProgress)).toEqual([]);
+  });
+
+  it('starts a new match when the match id changes', () => {
+    expect(getMatchTransitions(inProgress, { phase: 'in-progress', matchId: '200' })).toEqual(['new-match']);
+    expect(getMatchTransitions(preGame, { phase: 'draft', matchId: '200' })).toEqual(['new-match']);
+  });
+
+  it('treats joining a match under way as a new match without a horn', () => {
+    expect(getMatchTransitions(null, inProgress)).toEqual(['new-match']);
+    expect(getMatchTransitions({ phase: 'idle' }, inProgress)).toEqual(['new-match']);
+  });
+
+  it('reports a disconnect and the reconnect to the same match', () => {
+    expect(getMatchTransitions(inProgress, disconnected)).toEqual(['disconnect']);
+    expect(getMatchTransitions(disconnected, inProgress)).toEqual(['reconnect']);
+  });
+
+  it('ends the match at post-game and starts the next one at its draft', () => {
+    expect(getMatchTransitions(inProgress, postGame)).toEqual(['post-game']);
+    expect(getMatchTransitions(postGame, { phase: 'draft' })).toEqual(['new-match']);
+  });
+
+  it('ignores the client going idle', () => {
+    expect(getMatchTransitions(postGame, { phase: 'idle' })).toEqual([]);
+  });
+});
+
+describe('createMatchSummary', () => {
+  const tower = (team: 'radiant' | 'dire', isDestroyed: boolean) =>
+    ({ kind: 'tower', team, isDestroyed }) as BuildingStatus;
+
+  it('totals the match and names the winner from GSI', () => {
+    const summary = createMatchSummary(
+      gameState({ clock_time: 2521.7, win_team: 'dire' }),
+      2,
+      [tower('radiant', true), tower('radiant', true), tower('dire', true), tower('dire', false)]
+    );
+    expect(summary).toEqual({ duration: 2521, winner: 'dire', roshanKills: 2, towersDestroyed: { radiant: 2, dire: 1 } });
+  });
+
+  it('reads the winning team from the GSI map block', () => {
+    const read = (winTeam: string) => buildGameState(validateAndSanitizeGSIData({
+      map: { clock_time: 1800, game_state: 'DOTA_GAMERULES_STATE_POST_GAME', win_team: winTeam }
+    })!);
+
+    expect(createMatchSummary(read('radiant'), 0, []).winner).toBe('radiant');
+    expect(createMatchSummary(read('none'), 0, []).winner).toBeNull();
+  });
+});
@@ -0,0 +1,88 @@
+// Match lifecycle phases and the transitions between them
+
+import type { DotaGameState, GameState, GSITeam } from '@/types/gsi';
+import type { BuildingStatus } from './buildings';
+
+export type MatchPhase = 'idle' | 'draft' | 'pre-game' | 'in-progress' | 'post-game' | 'disconnected';
+
+export type MatchTransition = 'new-match' | 'horn' | 'disconnect' | 'reconnect' | 'post-game';
+
+const PHASES: Record<DotaGameState, MatchPhase> = {
+  DOTA_GAMERULES_STATE_INIT: 'idle',
+  DOTA_GAMERULES_STATE_WAIT_FOR_PLAYERS_TO_LOAD: 'draft',
+  DOTA_GAMERULES_STATE_HERO_SELECTION: 'draft',
+  DOTA_GAMERULES_STATE_STRATEGY_TIME: 'draft',
+  DOTA_GAMERULES_STATE_PRE_GAME: 'pre-game',
+  DOTA_GAMERULES_STATE_GAME_IN_PROGRESS: 'in-progress',
+  DOTA_GAMERULES_STATE_POST_GAME: 'post-game',
+  DOTA_GAMERULES_STATE_DISCONNECT: 'disconnected'
+};
+
+export interface MatchSnapshot {
+  phase: MatchPhase;
+  matchId?: string;
+}
+
+export const getMatchSnapshot = (gameState: GameState): MatchSnapshot => ({
+  phase: PHASES[gameState.game_state] ?? 'idle',
+  matchId: gameState.matchid
+});
+
+/**
+ * Transitions between two GSI snapshots, in the order they should be handled.
+ * A new match is a different match id, or a draft or pre-game after the last
+ * match ended; joining one already under way counts as a new match too.
+ */
+export function getMatchTransitions(previous: MatchSnapshot | null, next: MatchSnapshot): MatchTransition[] {
+  const transitions: MatchTransition[] = [];
+  const isMatchPhase = next.phase !== 'idle';
+
+  const changedMatch = !!previous?.matchId && !!next.matchId && previous.matchId !== next.matchId;
+  const restarted = (previous?.phase === 'post-game' || previous?.phase === 'idle' || !previous) &&
+    (next.phase === 'draft' || next.phase === 'pre-game' || next.phase === 'in-progress');
+  if (isMatchPhase && (changedMatch || restarted)) {
+    transitions.push('new-match');
+  }
+
+  if (!previous || previous.phase === next.phase) {
+    return transitions;
+  }
+
+  if (next.phase === 'disconnected') {
+    transitions.push('disconnect');
+  } else if (previous.phase === 'disconnected') {
+    transitions.push('reconnect');
+  }
+  if (next.phase === 'in-progress' && previous.phase === 'pre-game') {
+    transitions.push('horn');
+  }
+  if (next.phase === 'post-game') {
+    transitions.push('post-game');
+  }
+
+  return transitions;
+}
+
+export interface MatchSummary {
+  duration: number; // Game clock seconds at the end
+  winner: GSITeam | null;
+  roshanKills: number;
+  towersDestroyed: Record<GSITeam, number>;
+}
+
+/**
+ * Totals for the post-game summary; the winner is null when GSI doesn't report one
+ */
+export function createMatchSummary(gameState: GameState, roshanKills: number, buildings: BuildingStatus[]): MatchSummary {
+  const towersDestroyed = { radiant: 0, dire: 0 };
+  buildings
+    .filter(building => building.kind === 'tower' && building.isDestroyed)
+    .forEach(building => towersDestroyed[building.team]++);
+
+  return {
+    duration: Math.max(0, Math.floor(gameState.clock_time)),
+    winner: gameState.win_team ?? null,
+    roshanKills,
+    towersDestroyed
+  };
+}
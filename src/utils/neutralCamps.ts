@@ -0,0 +1,82 @@
+// Neutral camp pull and stack windows, in seconds past each minute of the game clock
+
+import type { GameLane, GameSide } from './gameRules';
+
+export type CampType = 'small' | 'medium' | 'hard' | 'ancient';
+export type CampAction = 'pull' | 'stack';
+
+interface CampTiming {
+  name: string;
+  pullSecond?: number; // Camps without one aren't pulled into lane
+  stackSecond: number;
+}
+
+export const CAMP_TIMINGS: Record<CampType, CampTiming> = {
+  small: { name: 'Small camp', pullSecond: 15, stackSecond: 55 },
+  medium: { name: 'Medium camp', stackSecond: 54 },
+  hard: { name: 'Hard camp', pullSecond: 53, stackSecond: 53 },
+  ancient: { name: 'Ancient camp', stackSecond: 55 }
+};
+
+export interface StackingWindow {
+  id: string;
+  camp: CampType;
+  action: CampAction;
+  second: number; // Second past the minute
+  location: string;
+}
+
+// Camps within reach of each lane; ancients are added for every lane
+const LANE_CAMPS: Record<GameLane, Array<{ camp: CampType; actions: CampAction[] }>> = {
+  safe: [
+    { camp: 'small', actions: ['pull', 'stack'] },
+    { camp: 'hard', actions: ['pull', 'stack'] }
+  ],
+  mid: [{ camp: 'medium', actions: ['stack'] }],
+  off: [
+    { camp: 'hard', actions: ['pull', 'stack'] },
+    { camp: 'medium', actions: ['stack'] }
+  ]
+};
+
+// Jungle next to each lane; the safe lane is at the bottom for Radiant and the top for Dire
+const LANE_JUNGLES: Record<GameSide, Record<GameLane, string>> = {
+  radiant: { safe: 'Radiant bottom jungle', mid: 'Radiant mid jungle', off: 'Radiant top jungle' },
+  dire: { safe: 'Dire top jungle', mid: 'Dire mid jungle', off: 'Dire bottom jungle' }
+};
+
+// Neutrals first spawn at 1:00; windows before that have nothing to pull
+const FIRST_CAMP_SPAWN = 60;
+
+// Announcements for pulls and stacks are muted after this game time when limited to laning
+export const LANING_PHASE_END = 600;
+
+/**
+ * Pull and stack windows relevant to the player's side and lane. The ancient
+ * stack second comes from the configurable ancient-stack timing.
+ */
+export function getStackingWindows(side: GameSide, lane: GameLane, ancientStackSecond: number): StackingWindow[] {
+  const camps = [
+    ...LANE_CAMPS[lane].map(({ camp, actions }) => ({ camp, actions, location: LANE_JUNGLES[side][lane] })),
+    { camp: 'ancient' as const, actions: ['stack' as const], location: `${side === 'radiant' ? 'Radiant' : 'Dire'} ancients` }
+  ];
+
+  return camps.flatMap(({ camp, actions, location }) => actions.flatMap(action => {
+    const timing = CAMP_TIMINGS[camp];
+    const second = action === 'pull'
+      ? timing.pullSecond
+      : camp === 'ancient' ? ancientStackSecond : timing.stackSecond;
+    if (second === undefined) return [];
+
+    return [{ id: `${camp}-${action}`, camp, action, second: Math.min(59, Math.max(0, second)), location }];
+  }));
+}
+
+/**
+ * Game clock time of the next occurrence of a window after the given time
+ */
+export function getNextWindowTime(window: StackingWindow, clockTime: number): number {
+  const minute = Math.max(Math.floor(clockTime / 60), FIRST_CAMP_SPAWN / 60);
+  const time = minute * 60 + window.second;
+  return time > clockTime ? time : time + 60;
+}
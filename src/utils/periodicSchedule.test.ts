@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { getFirstSpawn, getNextAlert, getNextSpawn, getPeriodicSchedule } from './periodicSchedule';
+
+describe('getPeriodicSchedule', () => {
+  it('returns null for events that are not periodic', () => {
+    expect(getPeriodicSchedule('roshan-respawn', 660)).toBeNull();
+    expect(getPeriodicSchedule('neutral-pull', 60)).toBeNull();
+    expect(getPeriodicSchedule('power-rune', 0)).toBeNull();
+  });
+
+  it('defaults the first spawn to one interval after the horn', () => {
+    expect(getPeriodicSchedule('lotus-pool', 180)?.firstSpawn).toBe(180);
+    expect(getPeriodicSchedule('bounty-rune', 300)?.firstSpawn).toBe(0);
+  });
+});
+
+describe('getNextSpawn', () => {
+  const power = getPeriodicSchedule('power-rune', 120)!;
+
+  it('includes water runes before the first power rune', () => {
+    expect(getNextSpawn(power, 0)).toEqual({ time: 120, label: 'Water Rune' });
+    expect(getNextSpawn(power, 150)).toEqual({ time: 240, label: 'Water Rune' });
+    expect(getNextSpawn(power, 250)).toEqual({ time: 360 });
+  });
+
+  it('moves past a spawn that has just been reached', () => {
+    expect(getNextSpawn(power, 359.8).time).toBe(480);
+    expect(getNextSpawn(power, 480).time).toBe(600);
+  });
+
+  it('counts from the horn during pre-game', () => {
+    const bounty = getPeriodicSchedule('bounty-rune', 300)!;
+    expect(getNextSpawn(bounty, -60).time).toBe(0);
+  });
+});
+
+describe('getNextAlert', () => {
+  it('alerts ahead of each spawn without drifting from the game interval', () => {
+    // Early Warning: 2 seconds before every power rune
+    const schedule = getPeriodicSchedule('power-rune', 120, -2)!;
+    const alerts: number[] = [];
+    let clockTime = 300;
+    for (let i = 0; i < 4; i++) {
+      clockTime = getNextAlert(schedule, clockTime).time;
+      alerts.push(clockTime);
+    }
+    expect(alerts).toEqual([358, 478, 598, 718]);
+  });
+
+  it('keeps the first spawn of interval-based events on the game interval', () => {
+    const lotus = getPeriodicSchedule('lotus-pool', 180, -5)!;
+    expect(getNextAlert(lotus, 0).time).toBe(175);
+    expect(getNextAlert(lotus, 175).time).toBe(355);
+  });
+
+  it('keeps the label of the spawn it alerts for', () => {
+    const schedule = getPeriodicSchedule('power-rune', 120, -5)!;
+    expect(getNextAlert(schedule, 0)).toEqual({ time: 115, label: 'Water Rune' });
+  });
+});
+
+describe('getFirstSpawn', () => {
+  it('returns the first Tormentor spawn for the game mode', () => {
+    expect(getFirstSpawn('tormentor', 'allpick')).toBe(1200);
+    expect(getFirstSpawn('tormentor', 'turbo')).toBe(600);
+  });
+
+  it('returns null for events without a fixed first spawn', () => {
+    expect(getFirstSpawn('roshan-respawn', 'allpick')).toBeNull();
+  });
+});
@@ -0,0 +1,95 @@
+// Spawn schedules of periodic map objectives, in seconds of game clock time from the horn
+
+import { applyModeToTime, type GameMode } from './gameRules';
+
+export interface ScheduledSpawn {
+  time: number;
+  label?: string; // Replaces the timer name for this spawn
+}
+
+export interface PeriodicSchedule {
+  interval: number; // The game's spawn interval, not the configured time
+  firstSpawn: number; // First regular spawn; later ones follow every interval
+  extraSpawns?: ScheduledSpawn[]; // One-off spawns outside the regular cycle
+  offset: number; // Seconds from each spawn to its alert; negative alerts early
+}
+
+interface ScheduleRule {
+  firstSpawn?: number; // Defaults to one interval after the horn
+  extraSpawns?: ScheduledSpawn[];
+}
+
+// Events not listed here are not periodic and run as one-shot countdowns
+const SCHEDULE_RULES: Record<string, ScheduleRule> = {
+  'bounty-rune': { firstSpawn: 0 },
+  // Water runes take the power rune spots until 6:00
+  'power-rune': {
+    firstSpawn: 360,
+    extraSpawns: [
+      { time: 120, label: 'Water Rune' },
+      { time: 240, label: 'Water Rune' }
+    ]
+  },
+  'lotus-pool': {},
+  'wisdom-shrine': {}
+};
+
+// Objectives that first spawn at a fixed time, then respawn only after a kill
+const FIRST_SPAWNS: Record<string, number> = {
+  'tormentor': 1200
+};
+
+// Spawns this close to the given time count as already reached
+const SPAWN_TOLERANCE = 0.5;
+
+/**
+ * Returns the schedule of a periodic event, or null when the event is not
+ * periodic. The interval is the game's own (patch and game mode applied); a
+ * preset or custom time only moves the alerts by its difference from it.
+ */
+export function getPeriodicSchedule(eventId: string, interval: number, offset: number = 0): PeriodicSchedule | null {
+  const rule = SCHEDULE_RULES[eventId];
+  if (!rule || interval <= 0) return null;
+
+  return {
+    interval,
+    firstSpawn: rule.firstSpawn ?? interval,
+    extraSpawns: rule.extraSpawns,
+    offset
+  };
+}
+
+/**
+ * Returns the game clock time of a respawning objective's first spawn for the
+ * game mode, or null when the event has none
+ */
+export function getFirstSpawn(eventId: string, mode: GameMode): number | null {
+  const firstSpawn = FIRST_SPAWNS[eventId];
+  return firstSpawn === undefined ? null : applyModeToTime(eventId, firstSpawn, mode);
+}
+
+/**
+ * Returns the first spawn strictly after the given game clock time
+ */
+export function getNextSpawn(schedule: PeriodicSchedule, clockTime: number): ScheduledSpawn {
+  const after = clockTime + SPAWN_TOLERANCE;
+  const cycles = Math.max(0, Math.ceil((after - schedule.firstSpawn) / schedule.interval));
+  let next: ScheduledSpawn = { time: schedule.firstSpawn + cycles * schedule.interval };
+
+  schedule.extraSpawns?.forEach(spawn => {
+    if (spawn.time >= after && spawn.time < next.time) {
+      next = spawn;
+    }
+  });
+
+  return next;
+}
+
+/**
+ * Returns the first alert strictly after the given game clock time, with the
+ * time of the alert rather than of its spawn
+ */
+export function getNextAlert(schedule: PeriodicSchedule, clockTime: number): ScheduledSpawn {
+  const spawn = getNextSpawn(schedule, clockTime - schedule.offset);
+  return { ...spawn, time: spawn.time + schedule.offset };
+}
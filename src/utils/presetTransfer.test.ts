@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import type { TimingPreset } from '@/hooks/useTimingConfiguration';
+import { getPresetFileName, parsePresetFile, serializePresets } from './presetTransfer';
+
+const options = { eventIds: ['roshan-respawn', 'power-rune'], existingIds: ['default', 'taken'] };
+
+const preset: TimingPreset = {
+  id: 'mine',
+  name: 'My Timings',
+  version: '7.36',
+  description: 'Early rune calls',
+  events: { 'power-rune': 115 },
+  isDefault: false
+};
+
+const fileWith = (presets: unknown[]) => JSON.stringify({ format: 'sentinel-preset', version: 1, presets });
+
+describe('parsePresetFile', () => {
+  it('reads back exported presets', () => {
+    const { isDefault, ...exported } = preset;
+    expect(parsePresetFile(serializePresets([preset]), options)).toEqual({ presets: [exported], errors: [] });
+  });
+
+  it('rejects files that are not preset files', () => {
+    expect(parsePresetFile('{', options).errors).toEqual(['File is not valid JSON']);
+    expect(parsePresetFile('[]', options).errors).toEqual(['File is not a Sentinel Timer preset file']);
+    expect(parsePresetFile(JSON.stringify({ format: 'other', presets: [] }), options).errors)
+      .toEqual(['File is not a Sentinel Timer preset file']);
+  });
+
+  it('rejects files from a newer version and files without presets', () => {
+    const newer = JSON.stringify({ format: 'sentinel-preset', version: 2, presets: [preset] });
+    expect(parsePresetFile(newer, options).errors).toEqual(['Preset file was created by a newer version of the app']);
+    expect(parsePresetFile(fileWith([]), options).errors).toEqual(['Preset file contains no presets']);
+  });
+
+  it('rejects the whole file when any preset is invalid', () => {
+    const result = parsePresetFile(fileWith([
+      preset,
+      { ...preset, id: 'other', name: 'Other', events: { 'lotus-pool': 180, 'roshan-respawn': -1 } }
+    ]), options);
+    expect(result.presets).toEqual([]);
+    expect(result.errors).toEqual(['"Other": unknown event "lotus-pool"', '"Other": invalid time for "roshan-respawn"']);
+  });
+
+  it('reports missing fields and duplicate ids', () => {
+    expect(parsePresetFile(fileWith([{ ...preset, id: '' }]), options).errors).toEqual(['Preset 1: missing id']);
+    expect(parsePresetFile(fileWith([{ ...preset, name: '  ' }]), options).errors).toEqual(['Preset 1: missing name']);
+    expect(parsePresetFile(fileWith([preset, preset]), options).errors).toEqual(['Preset 2: duplicate id "mine"']);
+    expect(parsePresetFile(fileWith(['mine']), options).errors).toEqual(['Preset 1: not an object']);
+  });
+
+  it('gives presets that clash with existing ids a fresh id', () => {
+    const { presets } = parsePresetFile(fileWith([{ ...preset, id: 'taken' }]), options);
+    expect(presets[0].id).toMatch(/^imported-\d+-0$/);
+    expect(presets[0].name).toBe('My Timings');
+  });
+
+  it('rounds times and fills in optional fields', () => {
+    const { presets } = parsePresetFile(fileWith([{ id: 'mine', name: 'Mine', events: { 'power-rune': 114.6 } }]), options);
+    expect(presets).toEqual([{ id: 'mine', name: 'Mine', version: 'Imported', description: '', events: { 'power-rune': 115 } }]);
+  });
+});
+
+describe('getPresetFileName', () => {
+  it('names single exports after the preset', () => {
+    expect(getPresetFileName([{ ...preset, name: 'Pro Timings (v2)!' }])).toBe('pro-timings-v2.sentinel-preset.json');
+    expect(getPresetFileName([{ ...preset, name: '***' }])).toBe('preset.sentinel-preset.json');
+    expect(getPresetFileName([preset, preset])).toBe('sentinel-presets.sentinel-preset.json');
+  });
+});
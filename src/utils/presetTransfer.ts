@@ -0,0 +1,138 @@
+// Import and export of timing presets as shareable JSON files
+
+import type { TimingPreset } from '@/hooks/useTimingConfiguration';
+import { safeClone, sanitizeString } from './validation';
+
+export const PRESET_FILE_EXTENSION = '.sentinel-preset.json';
+const PRESET_FILE_FORMAT = 'sentinel-preset';
+const PRESET_FILE_VERSION = 1;
+
+const MAX_PRESETS_PER_FILE = 50;
+const MAX_EVENT_TIME = 3600; // 1 hour
+const MAX_NAME_LENGTH = 64;
+const MAX_DESCRIPTION_LENGTH = 256;
+
+interface PresetFile {
+  format: typeof PRESET_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  presets: TimingPreset[];
+}
+
+export interface PresetImportResult {
+  presets: TimingPreset[];
+  errors: string[];
+}
+
+/**
+ * Serializes presets into the shareable file format
+ */
+export function serializePresets(presets: TimingPreset[]): string {
+  const file: PresetFile = {
+    format: PRESET_FILE_FORMAT,
+    version: PRESET_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    presets: presets.map(({ isDefault, ...preset }) => preset)
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Builds a file name for exported presets
+ */
+export function getPresetFileName(presets: TimingPreset[]): string {
+  const base = presets.length === 1
+    ? presets[0].name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'preset'
+    : 'sentinel-presets';
+  return `${base}${PRESET_FILE_EXTENSION}`;
+}
+
+/**
+ * Parses and validates a preset file. Any error rejects the whole file.
+ * Presets whose id clashes with an existing preset get a fresh id.
+ */
+export function parsePresetFile(
+  text: string,
+  options: { eventIds: readonly string[]; existingIds: readonly string[] }
+): PresetImportResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { presets: [], errors: ['File is not valid JSON'] };
+  }
+
+  // Strip prototype pollution keys before touching the data
+  const file = safeClone(parsed) as Record<string, unknown> | null;
+  if (!file || typeof file !== 'object' || Array.isArray(file) || file.format !== PRESET_FILE_FORMAT) {
+    return { presets: [], errors: ['File is not a Sentinel Timer preset file'] };
+  }
+  if (typeof file.version !== 'number' || file.version > PRESET_FILE_VERSION) {
+    return { presets: [], errors: ['Preset file was created by a newer version of the app'] };
+  }
+  if (!Array.isArray(file.presets) || file.presets.length === 0) {
+    return { presets: [], errors: ['Preset file contains no presets'] };
+  }
+  if (file.presets.length > MAX_PRESETS_PER_FILE) {
+    return { presets: [], errors: [`Preset file contains more than ${MAX_PRESETS_PER_FILE} presets`] };
+  }
+
+  const errors: string[] = [];
+  const presets: TimingPreset[] = [];
+  const seenIds = new Set<string>();
+  const takenIds = new Set(options.existingIds);
+
+  file.presets.forEach((value: unknown, index: number) => {
+    const label = `Preset ${index + 1}`;
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      errors.push(`${label}: not an object`);
+      return;
+    }
+
+    const p = value as Record<string, unknown>;
+    const id = sanitizeString(p.id, MAX_NAME_LENGTH);
+    const name = sanitizeString(p.name, MAX_NAME_LENGTH)?.trim();
+    if (!id) {
+      errors.push(`${label}: missing id`);
+      return;
+    }
+    if (!name) {
+      errors.push(`${label}: missing name`);
+      return;
+    }
+    if (seenIds.has(id)) {
+      errors.push(`${label}: duplicate id "${id}"`);
+      return;
+    }
+    seenIds.add(id);
+
+    if (!p.events || typeof p.events !== 'object' || Array.isArray(p.events)) {
+      errors.push(`"${name}": events must be an object`);
+      return;
+    }
+
+    const events: Record<string, number> = {};
+    for (const [eventId, time] of Object.entries(p.events as Record<string, unknown>)) {
+      if (!options.eventIds.includes(eventId)) {
+        errors.push(`"${name}": unknown event "${eventId}"`);
+      } else if (typeof time !== 'number' || !isFinite(time) || time <= 0 || time > MAX_EVENT_TIME) {
+        errors.push(`"${name}": invalid time for "${eventId}"`);
+      } else {
+        events[eventId] = Math.round(time);
+      }
+    }
+
+    const presetId = takenIds.has(id) ? `imported-${Date.now()}-${index}` : id;
+    takenIds.add(presetId);
+
+    presets.push({
+      id: presetId,
+      name,
+      version: sanitizeString(p.version, MAX_NAME_LENGTH) || 'Imported',
+      description: sanitizeString(p.description, MAX_DESCRIPTION_LENGTH) ?? '',
+      events
+    });
+  });
+
+  return errors.length > 0 ? { presets: [], errors } : { presets, errors };
+}
@@ -0,0 +1,43 @@
+// Roshan kill chain: drops and dependent timers spawned by each Roshan kill
+
+import type { Timer } from '@/components/TimerCard';
+
+export type RoshanDrop = 'aegis' | 'cheese' | 'refresher-shard' | 'aghanims-blessing';
+
+export const ROSHAN_DROP_NAMES: Record<RoshanDrop, string> = {
+  'aegis': 'Aegis',
+  'cheese': 'Cheese',
+  'refresher-shard': 'Refresher Shard',
+  'aghanims-blessing': "Aghanim's Blessing"
+};
+
+// Drops by kill number; the last entry applies to every later kill
+const ROSHAN_DROPS_BY_KILL: RoshanDrop[][] = [
+  ['aegis'],
+  ['aegis', 'cheese'],
+  ['aegis', 'cheese', 'aghanims-blessing'],
+  ['aegis', 'cheese', 'aghanims-blessing', 'refresher-shard']
+];
+
+// Timers spawned alongside the Roshan respawn timer
+export const ROSHAN_CHAIN_TIMERS: Timer[] = [
+  {
+    id: 'aegis',
+    name: 'Aegis Expiry',
+    duration: 300, // 5 minutes
+    type: 'roshan',
+    audioAlert: true
+  }
+];
+
+// A restart this close to the running Roshan timer is the same kill being re-synced
+export const SAME_KILL_WINDOW = 30;
+
+/**
+ * Returns the items dropped by the given Roshan kill (1-based)
+ */
+export function getRoshanDrops(killNumber: number): RoshanDrop[] {
+  if (killNumber < 1) return [];
+  const index = Math.min(killNumber, ROSHAN_DROPS_BY_KILL.length) - 1;
+  return ROSHAN_DROPS_BY_KILL[index];
+}
@@ -0,0 +1,128 @@
+// Versioned settings storage
+// Uses a JSON file under the Electron userData directory on desktop and
+// localStorage in the browser
+
+import { logger } from './logger';
+import { safeClone } from './validation';
+
+export interface StoredSettings<T> {
+  version: number;
+  savedAt: number;
+  data: T;
+}
+
+// Migrates data from the version it is keyed by to the next version
+export type SettingsMigration = (data: unknown) => unknown;
+
+export interface LoadSettingsOptions<T> {
+  version: number;
+  migrations?: Record<number, SettingsMigration>;
+  validate: (data: unknown) => data is T;
+}
+
+const STORAGE_PREFIX = 'sentinel-timer:';
+const SETTINGS_KEY_PATTERN = /^[a-z0-9-]+$/;
+
+function isStoredSettings(value: unknown): value is StoredSettings<unknown> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+  const v = value as Record<string, unknown>;
+  return typeof v.version === 'number' && 'data' in v;
+}
+
+async function readRaw(key: string): Promise<unknown> {
+  if (window.electronAPI?.readSettings) {
+    const result = await window.electronAPI.readSettings(key);
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to read settings file');
+    }
+    return result.data ?? null;
+  }
+
+  const stored = localStorage.getItem(STORAGE_PREFIX + key);
+  return stored ? JSON.parse(stored) : null;
+}
+
+async function writeRaw(key: string, value: unknown): Promise<void> {
+  if (window.electronAPI?.writeSettings) {
+    const result = await window.electronAPI.writeSettings(key, value);
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to write settings file');
+    }
+    return;
+  }
+
+  localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value));
+}
+
+/**
+ * Loads settings stored under a key, migrating older versions forward.
+ * Returns null when nothing is stored or the stored data can't be used.
+ */
+export async function loadSettings<T>(key: string, options: LoadSettingsOptions<T>): Promise<T | null> {
+  if (!SETTINGS_KEY_PATTERN.test(key)) {
+    throw new Error(`Invalid settings key: ${key}`);
+  }
+
+  try {
+    const raw = await readRaw(key);
+    if (raw === null || raw === undefined) {
+      return null;
+    }
+
+    // Data written before versioning was introduced counts as version 0
+    let { version, data } = isStoredSettings(raw) ? raw : { version: 0, data: raw };
+
+    if (version > options.version) {
+      logger.warn('Stored settings are from a newer version, ignoring', { key, version });
+      return null;
+    }
+
+    while (version < options.version) {
+      const migrate = options.migrations?.[version];
+      if (!migrate) {
+        logger.warn('No migration for stored settings, ignoring', { key, version });
+        return null;
+      }
+      data = migrate(data);
+      version++;
+    }
+
+    const cloned = safeClone(data);
+    if (!options.validate(cloned)) {
+      logger.warn('Stored settings failed validation, ignoring', { key });
+      return null;
+    }
+
+    return cloned;
+  } catch (err) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    logger.error('Failed to load settings', error, { key });
+    return null;
+  }
+}
+
+/**
+ * Saves settings under a key with the given schema version
+ */
+export async function saveSettings<T>(key: string, version: number, data: T): Promise<boolean> {
+  if (!SETTINGS_KEY_PATTERN.test(key)) {
+    throw new Error(`Invalid settings key: ${key}`);
+  }
+
+  const stored: StoredSettings<T> = {
+    version,
+    savedAt: Date.now(),
+    data
+  };
+
+  try {
+    await writeRaw(key, stored);
+    return true;
+  } catch (err) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    logger.error('Failed to save settings', error, { key });
+    return false;
+  }
+}
@@ -0,0 +1,59 @@
+// Patch-aware timing database: default event times and availability per Dota 2 patch
+
+export interface TimingPatch {
+  id: string;
+  name: string;
+  // Default time per timing event id in seconds; null when the event doesn't exist on the patch
+  events: Record<string, number | null>;
+}
+
+const PRE_733_EVENTS: Record<string, number | null> = {
+  'roshan-respawn': 660,
+  'bounty-rune': 180,
+  'power-rune': 120,
+  'lotus-pool': null,
+  'neutral-pull': 60,
+  'ancient-stack': 55,
+  'observer-ward': 135,
+  'sentry-ward': 85,
+  'wisdom-shrine': null,
+  'tormentor': null
+};
+
+// 7.33 "New Frontiers" added lotus pools, wisdom shrines and Tormentors
+const PATCH_733_EVENTS: Record<string, number | null> = {
+  ...PRE_733_EVENTS,
+  'lotus-pool': 180,
+  'wisdom-shrine': 420,
+  'tormentor': 600
+};
+
+const PATCH_735_EVENTS: Record<string, number | null> = {
+  ...PATCH_733_EVENTS,
+  'bounty-rune': 300
+};
+
+// Oldest first; the last entry is the newest supported patch
+export const TIMING_PATCHES: TimingPatch[] = [
+  { id: '7.32', name: '7.32', events: PRE_733_EVENTS },
+  { id: '7.33', name: '7.33 New Frontiers', events: PATCH_733_EVENTS },
+  { id: '7.34', name: '7.34', events: PATCH_733_EVENTS },
+  { id: '7.35', name: '7.35', events: PATCH_735_EVENTS },
+  { id: '7.36', name: '7.36', events: PATCH_735_EVENTS },
+  { id: '7.37', name: '7.37', events: PATCH_735_EVENTS }
+];
+
+export const DEFAULT_PATCH_ID = '7.35';
+
+export function getTimingPatch(patchId: string): TimingPatch {
+  return TIMING_PATCHES.find(p => p.id === patchId) ??
+    TIMING_PATCHES.find(p => p.id === DEFAULT_PATCH_ID)!;
+}
+
+/**
+ * Default time of an event on a patch, or null when unavailable.
+ * Events missing from the table fall back to the given time.
+ */
+export function getPatchEventTime(patch: TimingPatch, eventId: string, fallback: number): number | null {
+  return eventId in patch.events ? patch.events[eventId] : fallback;
+}
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { loadTimingConfiguration, normalizeWarningTimes, reconcileTimings, TIMING_SCHEMA_VERSION } from './timingStorage';
+
+const STORAGE_KEY = 'sentinel-timer:timing-configuration';
+const EVENT_IDS = ['roshan-respawn', 'power-rune', 'bounty-rune'];
+
+const store = new Map<string, string>();
+
+const storeSettings = (version: number, data: unknown) => {
+  store.set(STORAGE_KEY, JSON.stringify({ version, savedAt: 0, data }));
+};
+
+beforeEach(() => {
+  vi.stubGlobal('window', {});
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => store.set(key, value)
+  });
+});
+
+afterEach(() => {
+  store.clear();
+  vi.unstubAllGlobals();
+});
+
+describe('loadTimingConfiguration', () => {
+  const v1 = {
+    presets: [{ id: 'mine', name: 'Mine', version: '1', description: '', events: { 'power-rune': 115 } }],
+    activePresetId: 'default-7.35',
+    customTimings: { 'roshan-respawn': 600 },
+    eventIds: EVENT_IDS
+  };
+
+  it('returns null when nothing is stored', async () => {
+    expect(await loadTimingConfiguration(EVENT_IDS)).toBeNull();
+  });
+
+  it('migrates v1 settings to the current schema', async () => {
+    storeSettings(1, v1);
+
+    const config = await loadTimingConfiguration(EVENT_IDS);
+    expect(config?.activePresetId).toBe('default');
+    expect(config?.patchId).toBe('7.35');
+    expect(config?.customWarnings).toEqual({});
+    expect(config?.customTimings).toEqual({ 'roshan-respawn': 600 });
+    expect(config?.presets[0]).toMatchObject({ id: 'mine', isDefault: false, events: { 'power-rune': 115 } });
+  });
+
+  it('keeps custom preset ids when migrating', async () => {
+    storeSettings(1, { ...v1, activePresetId: 'mine' });
+    expect((await loadTimingConfiguration(EVENT_IDS))?.activePresetId).toBe('mine');
+  });
+
+  it('adds empty warnings to v2 settings', async () => {
+    storeSettings(2, { ...v1, activePresetId: 'default', patchId: '7.36' });
+
+    const config = await loadTimingConfiguration(EVENT_IDS);
+    expect(config?.patchId).toBe('7.36');
+    expect(config?.customWarnings).toEqual({});
+  });
+
+  it('reconciles current settings against the known events', async () => {
+    storeSettings(TIMING_SCHEMA_VERSION, {
+      ...v1,
+      activePresetId: 'default',
+      patchId: '7.36',
+      customTimings: { 'roshan-respawn': 600, 'removed-event': 90 },
+      customWarnings: { 'power-rune': [10, 30.4, 10], 'removed-event': [5] }
+    });
+
+    const config = await loadTimingConfiguration(EVENT_IDS);
+    expect(config?.customTimings).toEqual({ 'roshan-respawn': 600 });
+    expect(config?.customWarnings).toEqual({ 'power-rune': [30, 10] });
+  });
+
+  it('ignores settings from a newer version', async () => {
+    storeSettings(TIMING_SCHEMA_VERSION + 1, v1);
+    expect(await loadTimingConfiguration(EVENT_IDS)).toBeNull();
+  });
+
+  it('ignores unversioned settings, which have no migration', async () => {
+    store.set(STORAGE_KEY, JSON.stringify(v1));
+    expect(await loadTimingConfiguration(EVENT_IDS)).toBeNull();
+  });
+
+  it('ignores settings that fail validation after migrating', async () => {
+    storeSettings(1, { ...v1, customTimings: { 'roshan-respawn': 'soon' } });
+    expect(await loadTimingConfiguration(EVENT_IDS)).toBeNull();
+  });
+});
+
+describe('reconcileTimings', () => {
+  it('drops unknown events and times that are not positive', () => {
+    expect(reconcileTimings({ 'power-rune': 120, 'bounty-rune': 0, 'lotus-pool': 180, 'roshan-respawn': NaN }, EVENT_IDS))
+      .toEqual({ 'power-rune': 120 });
+  });
+});
+
+describe('normalizeWarningTimes', () => {
+  it('rounds, dedupes and sorts lead times largest first', () => {
+    expect(normalizeWarningTimes([10, 29.6, 10.2, 60])).toEqual([60, 30, 10]);
+  });
+
+  it('drops lead times out of range and keeps at most five', () => {
+    expect(normalizeWarningTimes([0, -5, 601, 600])).toEqual([600]);
+    expect(normalizeWarningTimes([1, 2, 3, 4, 5, 6])).toEqual([6, 5, 4, 3, 2]);
+  });
+});
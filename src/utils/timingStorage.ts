@@ -0,0 +1,131 @@
+// Persistence for timing presets and custom timings
+
+import type { TimingPreset } from '@/hooks/useTimingConfiguration';
+import { loadSettings, saveSettings, type SettingsMigration } from './storage';
+
+const TIMING_SETTINGS_KEY = 'timing-configuration';
+export const TIMING_SCHEMA_VERSION = 3;
+
+const MAX_WARNINGS_PER_EVENT = 5;
+const MAX_WARNING_TIME = 600; // 10 minutes
+
+export interface StoredTimingConfiguration {
+  presets: TimingPreset[]; // Custom presets only, built-ins ship with the app
+  activePresetId: string;
+  customTimings: Record<string, number>;
+  customWarnings: Record<string, number[]>; // Lead-time warnings per event, overriding the defaults
+  patchId: string;
+  eventIds: string[]; // Timing events known when saved, used to reconcile after patches
+}
+
+// Timing events renamed between releases: old id -> new id
+const RENAMED_TIMING_EVENTS: Record<string, string> = {};
+
+const TIMING_MIGRATIONS: Record<number, SettingsMigration> = {
+  // v2: presets became patch-aware and the built-in default lost its patch suffix
+  1: (data) => {
+    const v1 = data as Record<string, unknown>;
+    return {
+      ...v1,
+      activePresetId: v1.activePresetId === 'default-7.35' ? 'default' : v1.activePresetId,
+      patchId: '7.35'
+    };
+  },
+  // v3: lead-time warnings per event
+  2: (data) => ({ ...(data as Record<string, unknown>), customWarnings: {} })
+};
+
+function isTimingRecord(value: unknown): value is Record<string, number> {
+  return !!value && typeof value === 'object' && !Array.isArray(value) &&
+    Object.values(value).every(v => typeof v === 'number');
+}
+
+function isWarningRecord(value: unknown): value is Record<string, number[]> {
+  return !!value && typeof value === 'object' && !Array.isArray(value) &&
+    Object.values(value).every(v => Array.isArray(v) && v.every(t => typeof t === 'number'));
+}
+
+function isTimingPreset(value: unknown): value is TimingPreset {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const p = value as Record<string, unknown>;
+  return typeof p.id === 'string' &&
+    typeof p.name === 'string' &&
+    typeof p.version === 'string' &&
+    typeof p.description === 'string' &&
+    isTimingRecord(p.events);
+}
+
+function isStoredTimingConfiguration(value: unknown): value is StoredTimingConfiguration {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const c = value as Record<string, unknown>;
+  return Array.isArray(c.presets) && c.presets.every(isTimingPreset) &&
+    typeof c.activePresetId === 'string' &&
+    isTimingRecord(c.customTimings) &&
+    isWarningRecord(c.customWarnings) &&
+    typeof c.patchId === 'string' &&
+    Array.isArray(c.eventIds);
+}
+
+/**
+ * Maps renamed events to their new ids and drops unknown events and invalid times
+ */
+export function reconcileTimings(timings: Record<string, number>, eventIds: readonly string[]): Record<string, number> {
+  const reconciled: Record<string, number> = {};
+  for (const [id, time] of Object.entries(timings)) {
+    const currentId = RENAMED_TIMING_EVENTS[id] ?? id;
+    if (eventIds.includes(currentId) && isFinite(time) && time > 0) {
+      reconciled[currentId] = time;
+    }
+  }
+  return reconciled;
+}
+
+/**
+ * Rounds lead times to whole seconds and keeps the valid, distinct ones, largest first
+ */
+export function normalizeWarningTimes(times: readonly number[]): number[] {
+  const valid = times
+    .filter(t => isFinite(t) && t > 0 && t <= MAX_WARNING_TIME)
+    .map(t => Math.round(t));
+  return [...new Set(valid)].sort((a, b) => b - a).slice(0, MAX_WARNINGS_PER_EVENT);
+}
+
+function reconcileWarnings(warnings: Record<string, number[]>, eventIds: readonly string[]): Record<string, number[]> {
+  const reconciled: Record<string, number[]> = {};
+  for (const [id, times] of Object.entries(warnings)) {
+    const currentId = RENAMED_TIMING_EVENTS[id] ?? id;
+    if (eventIds.includes(currentId)) {
+      reconciled[currentId] = normalizeWarningTimes(times);
+    }
+  }
+  return reconciled;
+}
+
+/**
+ * Loads the stored timing configuration, reconciled against the current timing events
+ */
+export async function loadTimingConfiguration(eventIds: readonly string[]): Promise<StoredTimingConfiguration | null> {
+  const stored = await loadSettings(TIMING_SETTINGS_KEY, {
+    version: TIMING_SCHEMA_VERSION,
+    migrations: TIMING_MIGRATIONS,
+    validate: isStoredTimingConfiguration
+  });
+  if (!stored) return null;
+
+  return {
+    presets: stored.presets.map(preset => ({
+      ...preset,
+      isDefault: false,
+      events: reconcileTimings(preset.events, eventIds)
+    })),
+    activePresetId: stored.activePresetId,
+    customTimings: reconcileTimings(stored.customTimings, eventIds),
+    customWarnings: reconcileWarnings(stored.customWarnings, eventIds),
+    patchId: stored.patchId,
+    eventIds: [...eventIds]
+  };
+}
+
+export async function saveTimingConfiguration(config: StoredTimingConfiguration): Promise<boolean> {
+  return saveSettings(TIMING_SETTINGS_KEY, TIMING_SCHEMA_VERSION, config);
+}
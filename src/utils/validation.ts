@@ -1,6 +1,19 @@
 // Security and validation utilities
 
-import type { RawGSIData, GameState, DotaGameState } from '@/types/gsi';
+import type {
+  RawGSIData,
+  GameState,
+  DotaGameState,
+  GSIAbility,
+  GSIBuilding,
+  GSIEvent,
+  GSIEventType,
+  GSIHero,
+  GSIItem,
+  GSIPlayer,
+  GSITeam,
+  RoshanState
+} from '@/types/gsi';
 
 // Valid Dota 2 game states
 const VALID_GAME_STATES: readonly DotaGameState[] = [
@@ -14,11 +27,42 @@ const VALID_GAME_STATES: readonly DotaGameState[] = [
   'DOTA_GAMERULES_STATE_DISCONNECT',
 ] as const;
 
+// GSI event types we keep; anything else is dropped
+const VALID_EVENT_TYPES: readonly GSIEventType[] = [
+  'roshan_killed',
+  'aegis_picked_up',
+  'aegis_denied',
+  'courier_killed',
+  'bounty_rune_pickup',
+  'tip',
+] as const;
+
+const VALID_ROSHAN_STATES: readonly RoshanState[] = [
+  'alive',
+  'respawn_base',
+  'respawn_variable',
+] as const;
+
 // Safe number ranges
 const MAX_GAME_TIME = 3600 * 2; // 2 hours max
 const MIN_GAME_TIME = -300; // Allow negative for pre-game
 const MAX_CLOCK_TIME = 3600 * 2;
 const MIN_CLOCK_TIME = -300;
+const MAX_EVENTS = 100; // Events are resent every update, cap to avoid unbounded payloads
+const MAX_PLAYER_ID = 23; // 10 players plus spectator/coach slots
+const MAX_STRING_LENGTH = 128;
+const MAX_ITEM_CHARGES = 999;
+const ITEM_SLOT_PATTERN = /^(slot|stash|teleport|neutral)\d{1,2}$/;
+const ABILITY_SLOT_PATTERN = /^ability\d{1,2}$/;
+const BUILDING_NAME_PATTERN = /^[a-z0-9_]+$/;
+const MAX_COOLDOWN = 600;
+const MAX_GOLD = 100000;
+const MAX_STAT = 10000; // Kills, last hits and other per-match counters
+const MAX_HEALTH = 100000;
+const MAX_HERO_LEVEL = 30;
+const MAX_HERO_ID = 1000;
+const MAX_MAP_COORDINATE = 10000;
+const MAX_BUILDINGS_PER_TEAM = 30;
 
 /**
  * Sanitizes and validates a number within safe bounds
@@ -35,6 +79,20 @@ export function sanitizeNumber(
   return Math.max(min, Math.min(max, value));
 }
 
+/**
+ * Sanitizes a free-form string: strips control characters and caps the length.
+ * Returns undefined for non-strings.
+ */
+export function sanitizeString(value: unknown, maxLength: number = MAX_STRING_LENGTH): string | undefined {
+  if (typeof value === 'number' && isFinite(value)) {
+    value = String(value);
+  }
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  return value.replace(/\p{Cc}/gu, '').slice(0, maxLength);
+}
+
 /**
  * Validates and sanitizes a game state string
  */
@@ -47,6 +105,240 @@ export function sanitizeGameState(value: unknown): DotaGameState {
     : 'DOTA_GAMERULES_STATE_INIT';
 }
 
+/**
+ * Validates and sanitizes a single GSI event, returning null for unknown types
+ */
+export function sanitizeGSIEvent(value: unknown): GSIEvent | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+
+  const e = value as Record<string, unknown>;
+  if (typeof e.event_type !== 'string' || !VALID_EVENT_TYPES.includes(e.event_type as GSIEventType)) {
+    return null;
+  }
+
+  const event: GSIEvent = {
+    game_time: sanitizeNumber(e.game_time, MIN_GAME_TIME, MAX_GAME_TIME),
+    event_type: e.event_type as GSIEventType,
+  };
+
+  if (e.killed_by_team === 'radiant' || e.killed_by_team === 'dire') {
+    event.killed_by_team = e.killed_by_team;
+  }
+  if ('killer_player_id' in e) {
+    event.killer_player_id = sanitizeNumber(e.killer_player_id, 0, MAX_PLAYER_ID);
+  }
+  if ('player_id' in e) {
+    event.player_id = sanitizeNumber(e.player_id, 0, MAX_PLAYER_ID);
+  }
+  if (typeof e.snatched === 'boolean') {
+    event.snatched = e.snatched;
+  }
+
+  return event;
+}
+
+const sanitizeBoolean = (value: unknown): boolean => value === true;
+
+const sanitizeTeam = (value: unknown): GSITeam | undefined =>
+  value === 'radiant' || value === 'dire' ? value : undefined;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Validates and sanitizes the GSI player block
+ */
+export function sanitizeGSIPlayer(value: unknown): GSIPlayer | undefined {
+  if (!isRecord(value)) {
+    return undefined;
+  }
+
+  const player: GSIPlayer = {
+    kills: sanitizeNumber(value.kills, 0, MAX_STAT),
+    deaths: sanitizeNumber(value.deaths, 0, MAX_STAT),
+    assists: sanitizeNumber(value.assists, 0, MAX_STAT),
+    last_hits: sanitizeNumber(value.last_hits, 0, MAX_STAT),
+    denies: sanitizeNumber(value.denies, 0, MAX_STAT),
+    kill_streak: sanitizeNumber(value.kill_streak, 0, MAX_STAT),
+    gold: sanitizeNumber(value.gold, 0, MAX_GOLD),
+    gold_reliable: sanitizeNumber(value.gold_reliable, 0, MAX_GOLD),
+    gold_unreliable: sanitizeNumber(value.gold_unreliable, 0, MAX_GOLD),
+    gpm: sanitizeNumber(value.gpm, 0, MAX_GOLD),
+    xpm: sanitizeNumber(value.xpm, 0, MAX_GOLD),
+  };
+
+  for (const key of ['steamid', 'accountid', 'name', 'activity'] as const) {
+    const text = sanitizeString(value[key]);
+    if (text !== undefined) {
+      player[key] = text;
+    }
+  }
+  player.team_name = sanitizeTeam(value.team_name);
+  if ('player_slot' in value) {
+    player.player_slot = sanitizeNumber(value.player_slot, 0, MAX_PLAYER_ID);
+  }
+
+  return player;
+}
+
+/**
+ * Validates and sanitizes the GSI hero block. Returns undefined until a hero is picked.
+ */
+export function sanitizeGSIHero(value: unknown): GSIHero | undefined {
+  if (!isRecord(value)) {
+    return undefined;
+  }
+
+  const name = sanitizeString(value.name);
+  if (!name || !name.startsWith('npc_dota_hero_')) {
+    return undefined;
+  }
+
+  const hero: GSIHero = {
+    id: sanitizeNumber(value.id, 0, MAX_HERO_ID),
+    name,
+    level: sanitizeNumber(value.level, 0, MAX_HERO_LEVEL),
+    alive: sanitizeBoolean(value.alive),
+    respawn_seconds: sanitizeNumber(value.respawn_seconds, 0, MAX_GAME_TIME),
+    buyback_cost: sanitizeNumber(value.buyback_cost, 0, MAX_GOLD),
+    buyback_cooldown: sanitizeNumber(value.buyback_cooldown, 0, MAX_GAME_TIME),
+    health: sanitizeNumber(value.health, 0, MAX_HEALTH),
+    max_health: sanitizeNumber(value.max_health, 0, MAX_HEALTH),
+    mana: sanitizeNumber(value.mana, 0, MAX_HEALTH),
+    max_mana: sanitizeNumber(value.max_mana, 0, MAX_HEALTH),
+    aghanims_scepter: sanitizeBoolean(value.aghanims_scepter),
+    aghanims_shard: sanitizeBoolean(value.aghanims_shard),
+    silenced: sanitizeBoolean(value.silenced),
+    stunned: sanitizeBoolean(value.stunned),
+    hexed: sanitizeBoolean(value.hexed),
+    muted: sanitizeBoolean(value.muted),
+    break: sanitizeBoolean(value.break),
+    smoked: sanitizeBoolean(value.smoked),
+  };
+
+  if ('xpos' in value) {
+    hero.xpos = sanitizeNumber(value.xpos, -MAX_MAP_COORDINATE, MAX_MAP_COORDINATE);
+  }
+  if ('ypos' in value) {
+    hero.ypos = sanitizeNumber(value.ypos, -MAX_MAP_COORDINATE, MAX_MAP_COORDINATE);
+  }
+
+  return hero;
+}
+
+/**
+ * Validates and sanitizes the GSI abilities block, dropping unknown slots
+ */
+export function sanitizeGSIAbilities(value: unknown): Record<string, GSIAbility> {
+  const abilities: Record<string, GSIAbility> = {};
+  if (!isRecord(value)) {
+    return abilities;
+  }
+
+  for (const [slot, raw] of Object.entries(value)) {
+    if (!ABILITY_SLOT_PATTERN.test(slot) || !isRecord(raw)) {
+      continue;
+    }
+
+    const name = sanitizeString(raw.name);
+    if (!name) {
+      continue;
+    }
+
+    abilities[slot] = {
+      slot,
+      name,
+      level: sanitizeNumber(raw.level, 0, MAX_HERO_LEVEL),
+      can_cast: sanitizeBoolean(raw.can_cast),
+      passive: sanitizeBoolean(raw.passive),
+      ability_active: sanitizeBoolean(raw.ability_active),
+      cooldown: sanitizeNumber(raw.cooldown, 0, MAX_COOLDOWN),
+      ultimate: sanitizeBoolean(raw.ultimate),
+    };
+  }
+
+  return abilities;
+}
+
+/**
+ * Validates and sanitizes the GSI buildings block, keyed by team then building name
+ */
+export function sanitizeGSIBuildings(value: unknown): Partial<Record<GSITeam, Record<string, GSIBuilding>>> {
+  const buildings: Partial<Record<GSITeam, Record<string, GSIBuilding>>> = {};
+  if (!isRecord(value)) {
+    return buildings;
+  }
+
+  for (const team of ['radiant', 'dire'] as const) {
+    const teamBuildings = value[team];
+    if (!isRecord(teamBuildings)) {
+      continue;
+    }
+
+    buildings[team] = {};
+    for (const [name, raw] of Object.entries(teamBuildings).slice(0, MAX_BUILDINGS_PER_TEAM)) {
+      if (!BUILDING_NAME_PATTERN.test(name) || name.length > MAX_STRING_LENGTH || !isRecord(raw)) {
+        continue;
+      }
+      buildings[team]![name] = {
+        name,
+        team,
+        health: sanitizeNumber(raw.health, 0, MAX_HEALTH),
+        max_health: sanitizeNumber(raw.max_health, 0, MAX_HEALTH),
+      };
+    }
+  }
+
+  return buildings;
+}
+
+/**
+ * Validates and sanitizes the GSI items block, dropping empty and unknown slots
+ */
+export function sanitizeGSIItems(value: unknown): Record<string, GSIItem> {
+  const items: Record<string, GSIItem> = {};
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return items;
+  }
+
+  for (const [slot, raw] of Object.entries(value as Record<string, unknown>)) {
+    if (!ITEM_SLOT_PATTERN.test(slot) || !raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      continue;
+    }
+
+    const i = raw as Record<string, unknown>;
+    const name = sanitizeString(i.name);
+    if (!name || !name.startsWith('item_')) {
+      continue;
+    }
+
+    const item: GSIItem = { slot, name };
+    if ('purchaser' in i) {
+      item.purchaser = sanitizeNumber(i.purchaser, 0, MAX_PLAYER_ID);
+    }
+    if (typeof i.can_cast === 'boolean') {
+      item.can_cast = i.can_cast;
+    }
+    if ('cooldown' in i) {
+      item.cooldown = sanitizeNumber(i.cooldown, 0, MAX_COOLDOWN);
+    }
+    if (typeof i.passive === 'boolean') {
+      item.passive = i.passive;
+    }
+    if ('charges' in i) {
+      item.charges = sanitizeNumber(i.charges, 0, MAX_ITEM_CHARGES);
+    }
+    if ('secondary_charges' in i) {
+      item.secondary_charges = sanitizeNumber(i.secondary_charges, 0, MAX_ITEM_CHARGES);
+    }
+    items[slot] = item;
+  }
+
+  return items;
+}
+
 /**
  * Validates and sanitizes raw GSI data
  */
@@ -69,6 +361,70 @@ export function validateAndSanitizeGSIData(data: unknown): RawGSIData | null {
       game_state: sanitizeGameState(map.game_state),
       winner: sanitizeNumber(map.winner, 0, 3, 0),
     };
+    if (typeof map.roshan_state === 'string' && VALID_ROSHAN_STATES.includes(map.roshan_state as RoshanState)) {
+      sanitized.map.roshan_state = map.roshan_state as RoshanState;
+    }
+    if ('roshan_state_end_seconds' in map) {
+      sanitized.map.roshan_state_end_seconds = sanitizeNumber(map.roshan_state_end_seconds, 0, MAX_GAME_TIME);
+    }
+    for (const key of ['radiant_glyph_cooldown', 'dire_glyph_cooldown'] as const) {
+      if (key in map) {
+        sanitized.map[key] = sanitizeNumber(map[key], 0, MAX_GAME_TIME);
+      }
+    }
+    for (const key of ['daytime', 'nightstalker_night'] as const) {
+      if (typeof map[key] === 'boolean') {
+        sanitized.map[key] = map[key] as boolean;
+      }
+    }
+    for (const key of ['matchid', 'customgamename', 'game_mode'] as const) {
+      const value = sanitizeString(map[key]);
+      if (value !== undefined) {
+        sanitized.map[key] = value;
+      }
+    }
+    const winTeam = sanitizeTeam(map.win_team);
+    if (winTeam) {
+      sanitized.map.win_team = winTeam;
+    }
+  }
+
+  // Validate provider object if present
+  if ('provider' in data && data.provider && typeof data.provider === 'object' && !Array.isArray(data.provider)) {
+    const provider = data.provider as Record<string, unknown>;
+    sanitized.provider = {
+      name: sanitizeString(provider.name),
+      appid: sanitizeNumber(provider.appid, 0, Number.MAX_SAFE_INTEGER),
+      version: sanitizeString(provider.version),
+      timestamp: sanitizeNumber(provider.timestamp, 0, Number.MAX_SAFE_INTEGER),
+    };
+  }
+
+  // Validate events array if present
+  if ('events' in data && Array.isArray(data.events)) {
+    sanitized.events = data.events
+      .slice(-MAX_EVENTS)
+      .map(sanitizeGSIEvent)
+      .filter((event): event is GSIEvent => event !== null);
+  }
+
+  // Validate player, hero, abilities, items and buildings if present
+  const player = 'player' in data ? sanitizeGSIPlayer(data.player) : undefined;
+  if (player) {
+    sanitized.player = player;
+  }
+  const hero = 'hero' in data ? sanitizeGSIHero(data.hero) : undefined;
+  if (hero) {
+    sanitized.hero = hero;
+  }
+  if ('abilities' in data) {
+    sanitized.abilities = sanitizeGSIAbilities(data.abilities);
+  }
+  if ('items' in data) {
+    sanitized.items = sanitizeGSIItems(data.items);
+  }
+  if ('buildings' in data) {
+    sanitized.buildings = sanitizeGSIBuildings(data.buildings);
   }
 
   // Validate top-level fields
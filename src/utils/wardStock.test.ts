@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import type { GSIItem } from '@/types/gsi';
+import { advanceWardStock, countPurchasedWards, countWards, createWardStock, getWardHoldings, takeWards } from './wardStock';
+
+const ward = (slot: string, name: string, charges: number): GSIItem => ({ slot, name, charges });
+
+describe('advanceWardStock', () => {
+  it('restocks one ward per interval from the horn', () => {
+    const stock = createWardStock('observer', 0);
+    expect(advanceWardStock(stock, 'observer', 135, 134).restocked).toBe(0);
+    expect(advanceWardStock(stock, 'observer', 135, 135)).toEqual({ stock: { count: 3, restockStartedAt: 135 }, restocked: 1 });
+  });
+
+  it('catches up on missed intervals and stops at the maximum', () => {
+    const stock = createWardStock('observer', 0);
+    expect(advanceWardStock(stock, 'observer', 135, 1000)).toEqual({ stock: { count: 4, restockStartedAt: null }, restocked: 2 });
+  });
+
+  it('keeps the restock running after wards are bought', () => {
+    const bought = takeWards({ count: 3, restockStartedAt: 135 }, 'observer', 2, 200);
+    expect(bought).toEqual({ count: 1, restockStartedAt: 135 });
+    expect(takeWards({ count: 4, restockStartedAt: null }, 'observer', 1, 200)).toEqual({ count: 3, restockStartedAt: 200 });
+  });
+});
+
+describe('countWards', () => {
+  it('counts wards and both halves of a dispenser', () => {
+    expect(countWards([
+      ward('slot0', 'item_ward_observer', 2),
+      { slot: 'slot1', name: 'item_ward_dispenser', charges: 1, secondary_charges: 3 },
+      ward('stash0', 'item_ward_sentry', 1)
+    ])).toEqual({ observer: 3, sentry: 4 });
+  });
+});
+
+describe('countPurchasedWards', () => {
+  const before = getWardHoldings([ward('slot0', 'item_ward_observer', 1)], 600);
+
+  it('counts wards bought with gold', () => {
+    const after = getWardHoldings([ward('slot0', 'item_ward_observer', 2)], 550);
+    expect(countPurchasedWards(before, after)).toEqual({ observer: 1, sentry: 0 });
+  });
+
+  it('counts wards that land in the stash', () => {
+    const after = getWardHoldings([ward('slot0', 'item_ward_observer', 1), ward('stash0', 'item_ward_sentry', 2)], null);
+    expect(countPurchasedWards(before, after)).toEqual({ observer: 0, sentry: 2 });
+  });
+
+  it('ignores wards passed by a teammate', () => {
+    const after = getWardHoldings([ward('slot0', 'item_ward_observer', 2)], 640);
+    expect(countPurchasedWards(before, after)).toEqual({ observer: 0, sentry: 0 });
+  });
+
+  it('ignores wards moving out of the stash', () => {
+    const stashed = getWardHoldings([ward('stash0', 'item_ward_observer', 1)], 600);
+    const moved = getWardHoldings([ward('slot0', 'item_ward_observer', 1)], 600);
+    expect(countPurchasedWards(stashed, moved)).toEqual({ observer: 0, sentry: 0 });
+  });
+});
@@ -0,0 +1,115 @@
+// Shop stock of observer and sentry wards: stock counts, restocking and purchase detection
+
+import type { GSIItem } from '@/types/gsi';
+
+export type WardType = 'observer' | 'sentry';
+
+interface WardStockRule {
+  initial: number; // Stock at the start of the match
+  max: number;
+}
+
+export const WARD_STOCK_RULES: Record<WardType, WardStockRule> = {
+  observer: { initial: 2, max: 4 },
+  sentry: { initial: 3, max: 10 }
+};
+
+export interface WardStock {
+  count: number;
+  restockStartedAt: number | null; // Timeline seconds; null while the stock is full
+}
+
+export function createWardStock(type: WardType, now: number): WardStock {
+  const rule = WARD_STOCK_RULES[type];
+  return {
+    count: rule.initial,
+    restockStartedAt: rule.initial < rule.max ? now : null
+  };
+}
+
+/**
+ * Adds every ward restocked since the last update. One ward is restocked per
+ * interval while the stock is below its maximum.
+ */
+export function advanceWardStock(
+  stock: WardStock,
+  type: WardType,
+  interval: number,
+  now: number
+): { stock: WardStock; restocked: number } {
+  const { max } = WARD_STOCK_RULES[type];
+  let { count, restockStartedAt } = stock;
+  let restocked = 0;
+
+  while (restockStartedAt !== null && interval > 0 && now - restockStartedAt >= interval) {
+    count++;
+    restocked++;
+    restockStartedAt = count < max ? restockStartedAt + interval : null;
+  }
+
+  return restocked > 0 ? { stock: { count, restockStartedAt }, restocked } : { stock, restocked };
+}
+
+/**
+ * Removes purchased wards from the stock, starting the restock timer if it was full
+ */
+export function takeWards(stock: WardStock, type: WardType, amount: number, now: number): WardStock {
+  const count = Math.max(0, stock.count - amount);
+  return {
+    count,
+    restockStartedAt: stock.restockStartedAt ?? (count < WARD_STOCK_RULES[type].max ? now : null)
+  };
+}
+
+/**
+ * Counts the wards the local player holds, including a combined ward dispenser
+ */
+export function countWards(items: GSIItem[]): Record<WardType, number> {
+  const counts: Record<WardType, number> = { observer: 0, sentry: 0 };
+
+  for (const item of items) {
+    if (item.name === 'item_ward_observer') {
+      counts.observer += item.charges ?? 1;
+    } else if (item.name === 'item_ward_sentry') {
+      counts.sentry += item.charges ?? 1;
+    } else if (item.name === 'item_ward_dispenser') {
+      counts.observer += item.charges ?? 0;
+      counts.sentry += item.secondary_charges ?? 0;
+    }
+  }
+
+  return counts;
+}
+
+export interface WardHoldings {
+  held: Record<WardType, number>; // Everywhere, stash included
+  stashed: Record<WardType, number>;
+  gold: number | null;
+}
+
+export function getWardHoldings(items: GSIItem[], gold: number | null): WardHoldings {
+  return {
+    held: countWards(items),
+    stashed: countWards(items.filter(item => item.slot.startsWith('stash'))),
+    gold
+  };
+}
+
+/**
+ * Wards bought from the shop between two GSI updates. Wards only count as
+ * bought when they land in the stash or gold was spent; wards passed by a
+ * teammate go straight to the inventory for free.
+ */
+export function countPurchasedWards(previous: WardHoldings, current: WardHoldings): Record<WardType, number> {
+  const spentGold = previous.gold !== null && current.gold !== null && current.gold < previous.gold;
+  const purchased: Record<WardType, number> = { observer: 0, sentry: 0 };
+
+  (Object.keys(purchased) as WardType[]).forEach(type => {
+    const gained = current.held[type] - previous.held[type];
+    if (gained > 0 && (spentGold || current.stashed[type] > previous.stashed[type])) {
+      purchased[type] = gained;
+    }
+  });
+
+  return purchased;
+}
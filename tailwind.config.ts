@@ -80,6 +80,14 @@ export default {
 				neutral: {
 					DEFAULT: 'hsl(var(--neutral))',
 					glow: 'hsl(var(--neutral-glow))'
+				},
+				tormentor: {
+					DEFAULT: 'hsl(var(--tormentor))',
+					glow: 'hsl(var(--tormentor-glow))'
+				},
+				ward: {
+					DEFAULT: 'hsl(var(--ward))',
+					glow: 'hsl(var(--ward-glow))'
 				}
 			},
 			backgroundImage: {
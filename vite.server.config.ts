@@ -0,0 +1,23 @@
+import { defineConfig } from "vite";
+import path from "path";
+
+// Builds the standalone GSI server (server/index.ts) for Node
+export default defineConfig({
+  publicDir: false,
+  build: {
+    ssr: "server/index.ts",
+    outDir: "dist-server",
+    emptyOutDir: true,
+    target: "node18",
+    rollupOptions: {
+      output: {
+        entryFileNames: "gsi-server.js",
+      },
+    },
+  },
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+});